@@ -0,0 +1,66 @@
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { AlignMode, DistributeAxis } from "@/lib/geometry";
+
+interface AlignmentControlsProps {
+  selectionCount: number;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+const ALIGN_ACTIONS: Array<{ mode: AlignMode; label: string; icon: LucideIcon }> = [
+  { mode: "left", label: "Align left", icon: AlignStartVertical },
+  { mode: "center", label: "Align centers horizontally", icon: AlignCenterVertical },
+  { mode: "right", label: "Align right", icon: AlignEndVertical },
+  { mode: "top", label: "Align top", icon: AlignStartHorizontal },
+  { mode: "middle", label: "Align centers vertically", icon: AlignCenterHorizontal },
+  { mode: "bottom", label: "Align bottom", icon: AlignEndHorizontal },
+];
+
+const DISTRIBUTE_ACTIONS: Array<{ axis: DistributeAxis; label: string; icon: LucideIcon }> = [
+  { axis: "horizontal", label: "Distribute horizontally", icon: AlignHorizontalDistributeCenter },
+  { axis: "vertical", label: "Distribute vertically", icon: AlignVerticalDistributeCenter },
+];
+
+export const AlignmentControls = ({ selectionCount, onAlign, onDistribute }: AlignmentControlsProps) => (
+  <div className="flex items-center gap-1 border-2 border-[#8B4513] bg-[#F5E6D3] shadow-[3px_3px_0_#654321] px-1">
+    {ALIGN_ACTIONS.map(({ mode, label, icon: Icon }) => (
+      <Button
+        key={mode}
+        size="icon"
+        variant="ghost"
+        // A single box aligns to the template, several align to each other
+        title={selectionCount === 1 ? `${label} on template` : label}
+        onClick={() => onAlign(mode)}
+        disabled={selectionCount === 0}
+        className="h-8 w-8 text-[#8B4513] hover:bg-[#8B4513]/10"
+      >
+        <Icon className="h-4 w-4" />
+      </Button>
+    ))}
+    <div className="w-px h-6 bg-[#8B4513]/40 mx-1" />
+    {DISTRIBUTE_ACTIONS.map(({ axis, label, icon: Icon }) => (
+      <Button
+        key={axis}
+        size="icon"
+        variant="ghost"
+        title={label}
+        onClick={() => onDistribute(axis)}
+        disabled={selectionCount < 3}
+        className="h-8 w-8 text-[#8B4513] hover:bg-[#8B4513]/10"
+      >
+        <Icon className="h-4 w-4" />
+      </Button>
+    ))}
+  </div>
+);
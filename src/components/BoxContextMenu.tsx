@@ -0,0 +1,132 @@
+import { ReactNode } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ClipboardPaste,
+  Copy,
+  Link2,
+  Lock,
+  Paintbrush,
+  Trash2,
+  Unlink,
+} from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuCheckboxItem,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { BoxPosition } from "./DraggableBox";
+
+interface BoxContextMenuProps {
+  box: BoxPosition;
+  columns: string[];
+  mappedColumn: string | null;
+  canBringForward: boolean;
+  canSendBackward: boolean;
+  canPasteStyle: boolean;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onBringForward: () => void;
+  onSendBackward: () => void;
+  onToggleLocked: () => void;
+  onMapColumn: (columnId: string) => void;
+  onClearMapping: () => void;
+  onCopyStyle: () => void;
+  onPasteStyle: () => void;
+  children: ReactNode;
+}
+
+const contentClass = "border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-body shadow-[3px_3px_0_#654321]";
+const itemClass = "gap-2 focus:bg-[#8B4513]/10 focus:text-[#2C1810]";
+const iconClass = "h-4 w-4 text-[#8B4513]";
+
+export const BoxContextMenu = ({
+  box,
+  columns,
+  mappedColumn,
+  canBringForward,
+  canSendBackward,
+  canPasteStyle,
+  onDuplicate,
+  onDelete,
+  onBringForward,
+  onSendBackward,
+  onToggleLocked,
+  onMapColumn,
+  onClearMapping,
+  onCopyStyle,
+  onPasteStyle,
+  children,
+}: BoxContextMenuProps) => {
+  // Only column boxes print a mapped column, the others carry their own text
+  const isColumnBox = box.content.type === "column";
+
+  return (
+    <ContextMenu>
+      {/* `contents` keeps the trigger out of the layout so the box stays absolutely positioned */}
+      <ContextMenuTrigger className="contents">{children}</ContextMenuTrigger>
+      <ContextMenuContent className={`w-56 ${contentClass}`}>
+        <ContextMenuLabel className="truncate font-headline uppercase tracking-wide text-xs text-[#654321]">
+          {box.name}
+        </ContextMenuLabel>
+        <ContextMenuSeparator className="bg-[#8B4513]/40" />
+
+        <ContextMenuItem className={itemClass} onSelect={onDuplicate}>
+          <Copy className={iconClass} /> Duplicate
+          <ContextMenuShortcut>Ctrl+D</ContextMenuShortcut>
+        </ContextMenuItem>
+        <ContextMenuItem className={itemClass} disabled={box.locked} onSelect={onDelete}>
+          <Trash2 className={iconClass} /> Delete
+        </ContextMenuItem>
+        <ContextMenuSeparator className="bg-[#8B4513]/40" />
+
+        <ContextMenuItem className={itemClass} disabled={!canBringForward} onSelect={onBringForward}>
+          <ArrowUp className={iconClass} /> Bring forward
+        </ContextMenuItem>
+        <ContextMenuItem className={itemClass} disabled={!canSendBackward} onSelect={onSendBackward}>
+          <ArrowDown className={iconClass} /> Send backward
+        </ContextMenuItem>
+        <ContextMenuCheckboxItem className={itemClass} checked={box.locked} onSelect={onToggleLocked}>
+          <Lock className={iconClass} /> Locked
+        </ContextMenuCheckboxItem>
+        <ContextMenuSeparator className="bg-[#8B4513]/40" />
+
+        <ContextMenuSub>
+          <ContextMenuSubTrigger className={itemClass} disabled={!isColumnBox || columns.length === 0}>
+            <Link2 className={iconClass} /> Map to column
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent className={`max-h-72 overflow-y-auto ${contentClass}`}>
+            <ContextMenuRadioGroup value={mappedColumn ?? ""} onValueChange={onMapColumn}>
+              {columns.map((column) => (
+                <ContextMenuRadioItem key={column} value={column} className={itemClass}>
+                  {column}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuItem className={itemClass} disabled={!mappedColumn} onSelect={onClearMapping}>
+          <Unlink className={iconClass} /> Clear mapping
+        </ContextMenuItem>
+        <ContextMenuSeparator className="bg-[#8B4513]/40" />
+
+        <ContextMenuItem className={itemClass} onSelect={onCopyStyle}>
+          <Paintbrush className={iconClass} /> Copy style
+        </ContextMenuItem>
+        <ContextMenuItem className={itemClass} disabled={!canPasteStyle} onSelect={onPasteStyle}>
+          <ClipboardPaste className={iconClass} /> Paste style
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from "react";
-import { Maximize2, Minimize2, Eye } from "lucide-react";
+import { Maximize2, Minimize2, Eye, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { BoxPosition } from "./DraggableBox";
 import { ColumnMapping } from "./DatasetPreview";
+import { hasBoxContent, renderCertificate } from "@/lib/renderer";
+import { CustomFont } from "@/lib/fonts";
+import type { DatasetRow } from "@/lib/dataset";
 import {
   Dialog,
   DialogContent,
@@ -15,7 +18,10 @@ interface CertificatePreviewProps {
   boxes: BoxPosition[];
   columnMappings: ColumnMapping[];
   columns: string[];
-  firstRow: string[];
+  fonts: CustomFont[];
+  rows: DatasetRow[];
+  rowIndex: number;
+  onRowIndexChange: (rowIndex: number) => void;
 }
 
 export const CertificatePreview = ({
@@ -23,83 +29,31 @@ export const CertificatePreview = ({
   boxes,
   columnMappings,
   columns,
-  firstRow,
+  fonts,
+  rows,
+  rowIndex,
+  onRowIndexChange,
 }: CertificatePreviewProps) => {
   const [previewImage, setPreviewImage] = useState<string>("");
   const [isMaximized, setIsMaximized] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const previousRowIndex = useRef(rowIndex);
+  const row = rows[rowIndex] || [];
+  const canMapPreview = boxes.some((box) => hasBoxContent(box, columnMappings));
 
   const generatePreview = async () => {
-    console.log("🖼️ Generate Preview clicked!", { 
-      templateUrl, 
-      boxesCount: boxes.length, 
-      mappingsCount: columnMappings.length,
-      firstRowLength: firstRow.length 
-    });
-
-    if (!templateUrl || boxes.length === 0 || columnMappings.length === 0) {
-      console.log("❌ Cannot generate preview - missing requirements");
+    if (!templateUrl || !canMapPreview) {
       return;
     }
 
-    const canvas = canvasRef.current;
-    if (!canvas) {
-      console.log("❌ Canvas not ready");
-      return;
-    }
-
-    console.log("✅ Starting image load...");
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-
     try {
-      await new Promise((resolve, reject) => {
-        img.onload = () => {
-          console.log("✅ Image loaded successfully");
-          resolve(null);
-        };
-        img.onerror = (e) => {
-          console.error("❌ Image failed to load", e);
-          reject(e);
-        };
-        img.src = templateUrl;
-      });
-
-      console.log("✅ Setting canvas dimensions:", img.naturalWidth, "x", img.naturalHeight);
-      canvas.width = img.naturalWidth;
-      canvas.height = img.naturalHeight;
-      const ctx = canvas.getContext("2d");
-
-      if (!ctx) {
-        console.log("❌ Could not get canvas context");
-        return;
-      }
-
-      ctx.drawImage(img, 0, 0);
-      console.log("✅ Drew base image");
-
-      boxes.forEach((box) => {
-        const mapping = columnMappings.find((m) => m.boxId === box.id);
-        if (mapping) {
-          const colIndex = columns.indexOf(mapping.columnId);
-          const text = firstRow[colIndex] || "";
-
-          console.log("✅ Drawing text:", text, "at box", box.id);
-
-          ctx.fillStyle = "#000000";
-          ctx.font = `${box.height * 0.6}px Arial`;
-          ctx.textAlign = "center";
-          ctx.textBaseline = "middle";
-          ctx.fillText(text, box.x + box.width / 2, box.y + box.height / 2);
-        }
-      });
-
-      const dataUrl = canvas.toDataURL("image/png");
-      console.log("✅ Generated data URL, length:", dataUrl.length);
-      setPreviewImage(dataUrl);
+      const canvas = await renderCertificate(
+        { templateUrl, boxes, columnMappings, columns, fonts },
+        row
+      );
+      setPreviewImage(canvas.toDataURL("image/png"));
       setShowPreview(true);
-      console.log("✅✅✅ Preview generated successfully!");
     } catch (error) {
       console.error("❌ Failed to generate preview:", error);
       setPreviewImage("");
@@ -112,14 +66,45 @@ export const CertificatePreview = ({
       generatePreview();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [templateUrl, boxes, columnMappings, columns, firstRow, showPreview]);
+  }, [templateUrl, boxes, columnMappings, columns, fonts, row, showPreview]);
+
 
-  const canMapPreview = boxes.length > 0 && columnMappings.length > 0;
+  useEffect(() => {
+    // Switching rows (e.g. from the pre-flight report) should bring the preview up
+    if (previousRowIndex.current === rowIndex) return;
+    previousRowIndex.current = rowIndex;
+    if (canMapPreview) {
+      setShowPreview(true);
+      containerRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [rowIndex, canMapPreview]);
+
+  const rowNavigation = rows.length > 1 && (
+    <div className="flex items-center gap-1 normal-case">
+      <button
+        onClick={() => onRowIndexChange(Math.max(0, rowIndex - 1))}
+        disabled={rowIndex === 0}
+        className="hover:bg-[#654321] p-1 rounded transition-colors disabled:opacity-40"
+        title="Previous row"
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </button>
+      <span className="text-xs font-mono">
+        Row {rowIndex + 1}/{rows.length}
+      </span>
+      <button
+        onClick={() => onRowIndexChange(Math.min(rows.length - 1, rowIndex + 1))}
+        disabled={rowIndex >= rows.length - 1}
+        className="hover:bg-[#654321] p-1 rounded transition-colors disabled:opacity-40"
+        title="Next row"
+      >
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
 
   return (
-    <>
-      <canvas ref={canvasRef} className="hidden" />
-      
+    <div ref={containerRef}>
       {!showPreview || !previewImage ? (
         <div className="border-4 border-[#8B4513] rounded-lg overflow-hidden bg-[#F5E6D3] shadow-[inset_0_0_20px_rgba(139,69,19,0.2)]">
           <div className="bg-[#8B4513] text-[#F5E6D3] px-4 py-2 font-body font-bold uppercase text-sm">
@@ -136,10 +121,7 @@ export const CertificatePreview = ({
                   Ready to preview your certificate
                 </p>
                 <Button
-                  onClick={() => {
-                    console.log("🔘 Button clicked!");
-                    generatePreview();
-                  }}
+                  onClick={generatePreview}
                   className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[3px_3px_0_#654321] hover:shadow-[4px_4px_0_#654321] transition-all font-bold font-body uppercase"
                 >
                   <Eye className="mr-2 h-4 w-4" />
@@ -153,6 +135,7 @@ export const CertificatePreview = ({
         <div className="border-4 border-[#8B4513] rounded-lg bg-[#F5E6D3] shadow-[inset_0_0_20px_rgba(139,69,19,0.2)] overflow-hidden">
           <div className="bg-[#8B4513] text-[#F5E6D3] px-4 py-2 font-body font-bold uppercase text-sm flex items-center justify-between">
             <span>📋 Output Preview</span>
+            {rowNavigation}
             <button
               onClick={() => setIsMaximized(true)}
               className="hover:bg-[#654321] p-1 rounded transition-colors"
@@ -197,11 +180,11 @@ export const CertificatePreview = ({
               className="w-full h-auto rounded border-2 border-[#8B4513]"
             />
             <p className="text-center text-sm text-[#8B4513] mt-4 font-body">
-              This is how the certificate will look for the first row of your data
+              This is how the certificate will look for row {rowIndex + 1} of your data
             </p>
           </div>
         </DialogContent>
       </Dialog>
-    </>
+    </div>
   );
 };
@@ -0,0 +1,145 @@
+import { useRef } from "react";
+import { AlertTriangle, Braces, Columns3, Type } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { BoxPosition } from "./DraggableBox";
+import { BoxContent, placeholderFor, unknownTemplateColumns } from "@/lib/textTemplate";
+
+interface ContentInspectorProps {
+  box: BoxPosition;
+  columns: string[];
+  mappedColumn: string | null;
+  onChange: (content: BoxContent) => void;
+  onUnmap: () => void;
+}
+
+const labelClass = "text-xs text-[#654321] font-body font-bold uppercase";
+
+export const ContentInspector = ({ box, columns, mappedColumn, onChange, onUnmap }: ContentInspectorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { content } = box;
+
+  const changeType = (type: BoxContent["type"]) => {
+    if (type === content.type) return;
+    if (type === "template") {
+      // Carry the mapped column over so switching modes doesn't lose it
+      onChange({ type, template: mappedColumn ? placeholderFor(mappedColumn) : "" });
+    } else if (type === "static") {
+      onChange({ type, text: "" });
+    } else {
+      onChange({ type });
+    }
+  };
+
+  const insertPlaceholder = (column: string) => {
+    if (content.type !== "template") return;
+    const textarea = textareaRef.current;
+    const placeholder = placeholderFor(column);
+    const start = textarea?.selectionStart ?? content.template.length;
+    const end = textarea?.selectionEnd ?? content.template.length;
+    onChange({
+      type: "template",
+      template: content.template.slice(0, start) + placeholder + content.template.slice(end),
+    });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const unknown = content.type === "template" ? unknownTemplateColumns(content.template, columns) : [];
+
+  return (
+    <Card className="p-4 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[4px_4px_0_#654321]">
+      <div className="mb-3 pb-2 border-b-2 border-[#8B4513] flex items-center justify-between">
+        <h3 className="text-base font-bold text-[#2C1810] font-headline uppercase tracking-wide">Content</h3>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={content.type}
+          onValueChange={(type) => type && changeType(type as BoxContent["type"])}
+        >
+          <ToggleGroupItem value="column" title="Print one column">
+            <Columns3 className="mr-1 h-4 w-4" />
+            Column
+          </ToggleGroupItem>
+          <ToggleGroupItem value="template" title="Combine columns and text">
+            <Braces className="mr-1 h-4 w-4" />
+            Template
+          </ToggleGroupItem>
+          <ToggleGroupItem value="static" title="Same text on every certificate">
+            <Type className="mr-1 h-4 w-4" />
+            Static
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {content.type === "column" && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-[#654321] font-body italic">
+            {mappedColumn
+              ? `Prints the "${mappedColumn}" column.`
+              : "Drag a column arrow onto this box to map it."}
+          </p>
+          {mappedColumn && (
+            <button
+              onClick={onUnmap}
+              className="text-xs font-body font-bold uppercase text-[#8B4513] hover:bg-[#8B4513]/10 px-2 py-1 rounded transition-colors"
+            >
+              Unmap
+            </button>
+          )}
+        </div>
+      )}
+
+      {content.type === "template" && (
+        <div className="space-y-2">
+          <Label className={labelClass}>Template</Label>
+          <Textarea
+            ref={textareaRef}
+            value={content.template}
+            onChange={(e) => onChange({ type: "template", template: e.target.value })}
+            placeholder="Awarded to {First Name} {Last Name} for completing {Course}"
+            className="border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-mono text-xs"
+          />
+          <div className="flex flex-wrap gap-1">
+            {columns.map((column) => (
+              <button
+                key={column}
+                onClick={() => insertPlaceholder(column)}
+                className="text-xs font-mono px-2 py-0.5 border-2 border-[#8B4513] bg-[#DCC9B3] hover:bg-[#C9B8A3] text-[#2C1810] transition-colors"
+                title={`Insert ${placeholderFor(column)}`}
+              >
+                {placeholderFor(column)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-[#654321] font-body italic">
+            Use {"{Column|fallback}"} for a default when the value is blank, {"{{"} and {"}}"} for literal braces.
+          </p>
+          {unknown.length > 0 && (
+            <p className="flex items-center gap-1 text-xs text-red-700 font-body">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              Unknown column{unknown.length > 1 ? "s" : ""}: {unknown.join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {content.type === "static" && (
+        <div className="space-y-2">
+          <Label className={labelClass}>Text</Label>
+          <Textarea
+            value={content.text}
+            onChange={(e) => onChange({ type: "static", text: e.target.value })}
+            placeholder="Annual Awards Ceremony 2026"
+            className="border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-body text-sm"
+          />
+          <p className="text-xs text-[#654321] font-body italic">Printed as-is on every certificate.</p>
+        </div>
+      )}
+    </Card>
+  );
+};
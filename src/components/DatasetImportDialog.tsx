@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_IMPORT_OPTIONS,
+  DELIMITERS,
+  DatasetRow,
+  DatasetTable,
+  Delimiter,
+  ImportOptions,
+  TEXT_ENCODINGS,
+  TextEncoding,
+  TextFormat,
+  cellText,
+  importedRange,
+  toDatasetTable,
+} from "@/lib/dataset";
+
+interface DatasetImportDialogProps {
+  /** Raw rows of the file; the dialog is open while this is non-null */
+  data: DatasetRow[] | null;
+  fileName: string;
+  /** Encoding and delimiter of a CSV/TSV file; spreadsheets leave it out */
+  textFormat?: TextFormat;
+  onTextFormatChange?: (format: TextFormat) => void;
+  onConfirm: (table: DatasetTable) => void;
+  onCancel: () => void;
+}
+
+const fieldClass = "h-8 border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-body";
+const labelClass = "text-xs text-[#654321] font-body font-bold uppercase";
+
+// Raw rows shown past the start row, and at the end of the file
+const PREVIEW_HEAD_ROWS = 8;
+const PREVIEW_TAIL_ROWS = 3;
+
+export const DatasetImportDialog = ({
+  data,
+  fileName,
+  textFormat,
+  onTextFormatChange,
+  onConfirm,
+  onCancel,
+}: DatasetImportDialogProps) => {
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_IMPORT_OPTIONS);
+  const isOpen = !!data;
+
+  // Start every file from the defaults, but keep them while the encoding or delimiter changes
+  useEffect(() => {
+    if (isOpen) setOptions(DEFAULT_IMPORT_OPTIONS);
+  }, [isOpen]);
+
+  const rawRows = data ?? [];
+  const table = toDatasetTable(rawRows, options);
+  const [start, end] = importedRange(rawRows, options);
+
+  const headEnd = Math.min(rawRows.length, options.startRow + PREVIEW_HEAD_ROWS);
+  const tailStart = Math.max(headEnd, rawRows.length - PREVIEW_TAIL_ROWS);
+  const previewIndexes = [
+    ...Array.from({ length: headEnd }, (_, i) => i),
+    ...Array.from({ length: rawRows.length - tailStart }, (_, i) => tailStart + i),
+  ];
+
+  const update = (changes: Partial<ImportOptions>) => setOptions((current) => ({ ...current, ...changes }));
+
+  const rowClass = (index: number) => {
+    if (index < start || index >= end) return "opacity-40 line-through";
+    if (options.hasHeader && index === start) return "bg-[#DCC9B3] font-bold";
+    return "";
+  };
+
+  return (
+    <Dialog open={!!data} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl bg-[#F5E6D3] border-4 border-[#8B4513]">
+        <DialogHeader>
+          <DialogTitle className="font-body text-[#8B4513] uppercase">Import dataset</DialogTitle>
+          <DialogDescription className="font-body text-[#654321]">
+            Check how "{fileName}" will be read. Struck-out rows are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-6">
+          {textFormat && onTextFormatChange && (
+            <>
+              <div className="space-y-1">
+                <Label className={labelClass}>Encoding</Label>
+                <Select
+                  value={textFormat.encoding}
+                  onValueChange={(encoding) =>
+                    onTextFormatChange({ ...textFormat, encoding: encoding as TextEncoding })
+                  }
+                >
+                  <SelectTrigger className={`${fieldClass} w-64`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEXT_ENCODINGS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className={labelClass}>Delimiter</Label>
+                <Select
+                  value={textFormat.delimiter}
+                  onValueChange={(delimiter) =>
+                    onTextFormatChange({ ...textFormat, delimiter: delimiter as Delimiter })
+                  }
+                >
+                  <SelectTrigger className={`${fieldClass} w-32`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIMITERS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div className="flex items-center gap-2 h-8">
+            <Switch
+              id="dataset-has-header"
+              checked={options.hasHeader}
+              onCheckedChange={(hasHeader) => update({ hasHeader })}
+            />
+            <Label htmlFor="dataset-has-header" className={labelClass}>
+              Has a header row
+            </Label>
+          </div>
+          <div className="space-y-1">
+            <Label className={labelClass}>{options.hasHeader ? "Header row" : "First data row"}</Label>
+            <Input
+              type="number"
+              min={1}
+              value={options.startRow + 1}
+              onChange={(e) => {
+                const row = parseInt(e.target.value, 10);
+                if (row >= 1) update({ startRow: row - 1 });
+              }}
+              className={`${fieldClass} w-24`}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className={labelClass}>Skip rows at end</Label>
+            <Input
+              type="number"
+              min={0}
+              value={options.skipTrailing}
+              onChange={(e) => {
+                const rows = parseInt(e.target.value, 10);
+                if (rows >= 0) update({ skipTrailing: rows });
+              }}
+              className={`${fieldClass} w-24`}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-auto max-h-80 border-2 border-[#8B4513]">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="border-b-4 border-double border-[#8B4513]">
+                <th className="px-2 py-2 bg-[#DCC9B3] text-[#654321] font-body border-r-2 border-[#8B4513]">#</th>
+                {table.columns.map((column, idx) => (
+                  <th
+                    key={idx}
+                    className="px-3 py-2 text-left font-bold bg-[#DCC9B3] text-[#2C1810] font-body uppercase border-r-2 border-[#8B4513] last:border-r-0 whitespace-nowrap"
+                  >
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewIndexes.map((index, i) => (
+                <tr
+                  key={index}
+                  className={`border-b border-[#C9B8A3] ${rowClass(index)} ${
+                    i > 0 && index !== previewIndexes[i - 1] + 1 ? "border-t-4 border-t-[#C9B8A3]" : ""
+                  }`}
+                >
+                  <td className="px-2 py-1 text-[#654321] font-mono text-right border-r-2 border-[#8B4513]">
+                    {index + 1}
+                  </td>
+                  {table.columns.map((_, cellIdx) => (
+                    <td
+                      key={cellIdx}
+                      className="px-3 py-1 text-[#4A3728] font-body border-r border-[#C9B8A3] last:border-r-0 whitespace-nowrap"
+                    >
+                      {cellText(rawRows[index][cellIdx])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-sm text-[#654321] font-body">
+          {table.rows.length} rows × {table.columns.length} columns will be imported
+        </p>
+
+        <DialogFooter>
+          <Button
+            onClick={onCancel}
+            className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] font-bold font-body uppercase"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(table)}
+            disabled={table.columns.length === 0 || table.rows.length === 0}
+            className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] font-bold font-body uppercase"
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
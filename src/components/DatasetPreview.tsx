@@ -1,18 +1,21 @@
 import { Card } from "@/components/ui/card";
 import { TrendingUp, Zap, Star } from "lucide-react";
 import { useState, useRef } from "react";
+import { DatasetRow, cellText } from "@/lib/dataset";
 
 export interface ColumnMapping {
   columnId: string;
-  boxId: string | null;
+  boxId: string;
 }
 
 interface DatasetPreviewProps {
   columns: string[];
-  rows: string[][];
+  rows: DatasetRow[];
   onColumnDragStart: (columnId: string, startPos: { x: number; y: number }) => void;
   onColumnDragEnd: () => void;
   columnMappings: ColumnMapping[];
+  /** Display name for a box id */
+  boxName?: (boxId: string) => string;
 }
 
 export const DatasetPreview = ({
@@ -21,6 +24,7 @@ export const DatasetPreview = ({
   onColumnDragStart,
   onColumnDragEnd,
   columnMappings,
+  boxName = (boxId) => boxId,
 }: DatasetPreviewProps) => {
   const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
   const dragStartPos = useRef({ x: 0, y: 0 });
@@ -41,8 +45,8 @@ export const DatasetPreview = ({
     onColumnDragEnd();
   };
 
-  const getBoxIdForColumn = (columnId: string) => {
-    return columnMappings.find((m) => m.columnId === columnId)?.boxId;
+  const getBoxIdsForColumn = (columnId: string) => {
+    return columnMappings.filter((m) => m.columnId === columnId).map((m) => m.boxId);
   };
 
   // Fun arrow icons that rotate
@@ -62,7 +66,8 @@ export const DatasetPreview = ({
             <tr className="border-b-4 border-double border-[#8B4513]">
               {columns.map((col, idx) => {
                 const ArrowIcon = ArrowIcons[idx % ArrowIcons.length];
-                const isConnected = getBoxIdForColumn(col);
+                const targets = getBoxIdsForColumn(col);
+                const isConnected = targets.length > 0;
                 
                 return (
                   <th
@@ -79,18 +84,21 @@ export const DatasetPreview = ({
                         onMouseDown={handleDragStart(col)}
                         onMouseUp={handleDragEnd}
                         data-column={col}
-                        title={isConnected ? `Connected to ${isConnected}` : 'Drag to connect'}
+                        title={isConnected ? `Connected to ${targets.map(boxName).join(", ")}` : 'Drag to connect'}
                       >
                         <ArrowIcon className={`h-4 w-4 text-[#8B4513] transition-all duration-300 ${
                           isConnected ? 'text-green-600 scale-110' : 'animate-bounce'
                         }`} />
                       </div>
                       <span className="text-[#2C1810] font-body font-bold uppercase tracking-wide">{col}</span>
-                      {isConnected && (
-                        <span className="text-xs text-green-600 font-mono bg-green-100 px-2 py-1 border border-green-500 rounded-full animate-pulse">
-                          → {isConnected}
+                      {targets.map((boxId) => (
+                        <span
+                          key={boxId}
+                          className="text-xs text-green-600 font-mono bg-green-100 px-2 py-1 border border-green-500 rounded-full animate-pulse whitespace-nowrap"
+                        >
+                          → {boxName(boxId)}
                         </span>
-                      )}
+                      ))}
                     </div>
                   </th>
                 );
@@ -102,7 +110,7 @@ export const DatasetPreview = ({
               <tr key={rowIdx} className="border-b border-[#C9B8A3] hover:bg-[#E8DCC8] transition-colors">
                 {row.map((cell, cellIdx) => (
                   <td key={cellIdx} className="px-3 py-2 text-[#4A3728] font-body border-r border-[#C9B8A3] last:border-r-0">
-                    {cell}
+                    {cellText(cell)}
                   </td>
                 ))}
               </tr>
@@ -1,33 +1,78 @@
 import { useState, useRef, useEffect } from "react";
-import { X } from "lucide-react";
+import { Lock, RotateCw, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import type { BoxTypography } from "@/lib/typography";
+import type { BoxOverflow } from "@/lib/textLayout";
+import type { BoxContent } from "@/lib/textTemplate";
+import { BoxGeometry, MIN_BOX_HEIGHT, MIN_BOX_WIDTH, normalizeAngle } from "@/lib/geometry";
 
 export interface BoxPosition {
   id: string;
+  /** Shown in the layers panel; ids are random and never shown */
+  name: string;
+  /** Locked boxes can't be moved, resized or rotated on the canvas */
+  locked: boolean;
+  /** Hidden boxes are left off the canvas and out of the output */
+  hidden: boolean;
   x: number;
   y: number;
   width: number;
   height: number;
-  columnId?: string;
+  /** Clockwise degrees around the box center */
+  rotation: number;
+  typography: BoxTypography;
+  overflow: BoxOverflow;
+  content: BoxContent;
 }
 
 interface DraggableBoxProps {
   box: BoxPosition;
   onUpdate: (box: BoxPosition) => void;
+  /** Called once a drag or resize gesture finishes */
+  onUpdateEnd?: () => void;
+  /** Adjusts the geometry mid-gesture; `handle` is null while moving. Alt bypasses it. */
+  onSnap?: (geometry: BoxGeometry, handle: string | null, bypass: boolean) => BoxGeometry;
   onDelete: (id: string) => void;
   scale: number;
   isDraggingColumn?: boolean;
   isHovered?: boolean;
+  isSelected?: boolean;
+  /** `additive` toggles the box in a multi-selection (shift-click) */
+  onSelect?: (id: string, additive: boolean) => void;
+  mappedColumn?: string | null;
 }
 
-export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn, isHovered }: DraggableBoxProps) => {
+export const DraggableBox = ({
+  box,
+  onUpdate,
+  onUpdateEnd,
+  onSnap,
+  onDelete,
+  scale,
+  isDraggingColumn,
+  isHovered,
+  isSelected,
+  onSelect,
+  mappedColumn,
+}: DraggableBoxProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState<string | null>(null);
   const boxRef = useRef<HTMLDivElement>(null);
   const startPos = useRef({ x: 0, y: 0, boxX: 0, boxY: 0, width: 0, height: 0 });
   const animationFrameRef = useRef<number | null>(null);
-  const pendingUpdateRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
+  const [isRotating, setIsRotating] = useState(false);
+  // Box center in screen pixels, captured when a rotation starts
+  const rotationCenter = useRef({ x: 0, y: 0 });
+  const pendingUpdateRef = useRef<Partial<BoxPosition> | null>(null);
   const lastMousePos = useRef({ x: 0, y: 0 });
+  // Clicking one box of a multi-selection without dragging selects just that box
+  const selectOnRelease = useRef(false);
+  const label =
+    box.content.type === "template"
+      ? box.content.template
+      : box.content.type === "static"
+        ? box.content.text
+        : mappedColumn;
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -36,6 +81,7 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
       
       if (isDragging) {
         e.preventDefault();
+        selectOnRelease.current = false;
         const dx = (lastMousePos.current.x - startPos.current.x) / scale;
         const dy = (lastMousePos.current.y - startPos.current.y) / scale;
         
@@ -43,24 +89,14 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
         const newX = Math.max(0, startPos.current.boxX + dx);
         const newY = Math.max(0, startPos.current.boxY + dy);
         
-        pendingUpdateRef.current = {
-          x: newX,
-          y: newY,
-          width: box.width,
-          height: box.height,
-        };
+        const geometry = { x: newX, y: newY, width: box.width, height: box.height };
+        pendingUpdateRef.current = onSnap ? onSnap(geometry, null, e.altKey) : geometry;
         
         // Schedule update on next animation frame if not already scheduled
         if (animationFrameRef.current === null) {
           animationFrameRef.current = requestAnimationFrame(() => {
             if (pendingUpdateRef.current) {
-              onUpdate({
-                ...box,
-                x: pendingUpdateRef.current.x,
-                y: pendingUpdateRef.current.y,
-                width: pendingUpdateRef.current.width,
-                height: pendingUpdateRef.current.height,
-              });
+              onUpdate({ ...box, ...pendingUpdateRef.current });
               pendingUpdateRef.current = null;
             }
             animationFrameRef.current = null;
@@ -68,50 +104,71 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
         }
       } else if (isResizing) {
         e.preventDefault();
-        const dx = (lastMousePos.current.x - startPos.current.x) / scale;
-        const dy = (lastMousePos.current.y - startPos.current.y) / scale;
+        // Work in the box's own (unrotated) frame so handles follow the rotated edges
+        const angle = (box.rotation * Math.PI) / 180;
+        const screenDx = (lastMousePos.current.x - startPos.current.x) / scale;
+        const screenDy = (lastMousePos.current.y - startPos.current.y) / scale;
+        const dx = screenDx * Math.cos(angle) + screenDy * Math.sin(angle);
+        const dy = -screenDx * Math.sin(angle) + screenDy * Math.cos(angle);
         
         let newWidth = startPos.current.width;
         let newHeight = startPos.current.height;
         let newX = startPos.current.boxX;
         let newY = startPos.current.boxY;
 
-        if (isResizing.includes("e")) newWidth = Math.max(50, startPos.current.width + dx);
+        if (isResizing.includes("e")) newWidth = Math.max(MIN_BOX_WIDTH, startPos.current.width + dx);
         if (isResizing.includes("w")) {
-          const deltaWidth = Math.min(dx, startPos.current.width - 50);
+          const deltaWidth = Math.min(dx, startPos.current.width - MIN_BOX_WIDTH);
           newWidth = startPos.current.width - deltaWidth;
           newX = startPos.current.boxX + deltaWidth;
         }
-        if (isResizing.includes("s")) newHeight = Math.max(30, startPos.current.height + dy);
+        if (isResizing.includes("s")) newHeight = Math.max(MIN_BOX_HEIGHT, startPos.current.height + dy);
         if (isResizing.includes("n")) {
-          const deltaHeight = Math.min(dy, startPos.current.height - 30);
+          const deltaHeight = Math.min(dy, startPos.current.height - MIN_BOX_HEIGHT);
           newHeight = startPos.current.height - deltaHeight;
           newY = startPos.current.boxY + deltaHeight;
         }
 
+        if (angle) {
+          // Rotation is about the center, so move the center to keep the opposite edge still
+          const shiftX = newX - startPos.current.boxX + (newWidth - startPos.current.width) / 2;
+          const shiftY = newY - startPos.current.boxY + (newHeight - startPos.current.height) / 2;
+          const centerX = startPos.current.boxX + startPos.current.width / 2 + shiftX * Math.cos(angle) - shiftY * Math.sin(angle);
+          const centerY = startPos.current.boxY + startPos.current.height / 2 + shiftX * Math.sin(angle) + shiftY * Math.cos(angle);
+          newX = centerX - newWidth / 2;
+          newY = centerY - newHeight / 2;
+        }
+
         // Ensure boxes stay within bounds
         newX = Math.max(0, newX);
         newY = Math.max(0, newY);
 
-        // Store pending update without rounding
-        pendingUpdateRef.current = {
-          x: newX,
-          y: newY,
-          width: newWidth,
-          height: newHeight,
-        };
+        // Store pending update without rounding; snapping only knows unrotated edges
+        const geometry = { x: newX, y: newY, width: newWidth, height: newHeight };
+        pendingUpdateRef.current = onSnap && !angle ? onSnap(geometry, isResizing, e.altKey) : geometry;
         
         // Schedule update on next animation frame if not already scheduled
         if (animationFrameRef.current === null) {
           animationFrameRef.current = requestAnimationFrame(() => {
             if (pendingUpdateRef.current) {
-              onUpdate({
-                ...box,
-                x: pendingUpdateRef.current.x,
-                y: pendingUpdateRef.current.y,
-                width: pendingUpdateRef.current.width,
-                height: pendingUpdateRef.current.height,
-              });
+              onUpdate({ ...box, ...pendingUpdateRef.current });
+              pendingUpdateRef.current = null;
+            }
+            animationFrameRef.current = null;
+          });
+        }
+      } else if (isRotating) {
+        e.preventDefault();
+        const degrees =
+          (Math.atan2(e.clientY - rotationCenter.current.y, e.clientX - rotationCenter.current.x) * 180) / Math.PI + 90;
+        // Shift snaps to 15° steps
+        const stepped = e.shiftKey ? Math.round(degrees / 15) * 15 : Math.round(degrees * 10) / 10;
+        pendingUpdateRef.current = { rotation: normalizeAngle(stepped) };
+
+        if (animationFrameRef.current === null) {
+          animationFrameRef.current = requestAnimationFrame(() => {
+            if (pendingUpdateRef.current) {
+              onUpdate({ ...box, ...pendingUpdateRef.current });
               pendingUpdateRef.current = null;
             }
             animationFrameRef.current = null;
@@ -131,26 +188,26 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
       
       // Apply any pending update immediately
       if (pendingUpdateRef.current) {
-        onUpdate({
-          ...box,
-          x: pendingUpdateRef.current.x,
-          y: pendingUpdateRef.current.y,
-          width: pendingUpdateRef.current.width,
-          height: pendingUpdateRef.current.height,
-        });
+        onUpdate({ ...box, ...pendingUpdateRef.current });
         pendingUpdateRef.current = null;
       }
+      onUpdateEnd?.();
+      if (selectOnRelease.current) {
+        selectOnRelease.current = false;
+        onSelect?.(box.id, false);
+      }
       
       setIsDragging(false);
       setIsResizing(null);
+      setIsRotating(false);
       document.body.style.userSelect = ''; // Re-enable text selection
       document.body.style.cursor = ''; // Reset cursor
     };
 
-    if (isDragging || isResizing) {
+    if (isDragging || isResizing || isRotating) {
       // Disable text selection and set cursor during drag
       document.body.style.userSelect = 'none';
-      document.body.style.cursor = isDragging ? 'move' : 'resize';
+      document.body.style.cursor = isDragging ? 'move' : isRotating ? 'grabbing' : 'resize';
       
       document.addEventListener("mousemove", handleMouseMove, { passive: false });
       document.addEventListener("mouseup", handleMouseUp, { passive: false });
@@ -168,13 +225,30 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
         animationFrameRef.current = null;
       }
     };
-  }, [isDragging, isResizing, box, onUpdate, scale]);
+  }, [isDragging, isResizing, isRotating, box, onUpdate, onUpdateEnd, onSnap, onSelect, scale]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (isDraggingColumn) return; // Disable during column drag
     e.preventDefault();
     e.stopPropagation();
-    
+
+    // Right-click selects the box for the context menu without starting a drag
+    if (e.button !== 0) {
+      if (!isSelected) onSelect?.(box.id, false);
+      return;
+    }
+    if (box.locked) {
+      onSelect?.(box.id, e.shiftKey);
+      return;
+    }
+    if (e.shiftKey) {
+      onSelect?.(box.id, true);
+      if (isSelected) return; // shift-click removed it from the selection
+    } else if (!isSelected) {
+      onSelect?.(box.id, false);
+    } else {
+      selectOnRelease.current = true;
+    }
     setIsDragging(true);
     startPos.current = {
       x: e.clientX,
@@ -191,6 +265,7 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
     e.preventDefault();
     e.stopPropagation();
     
+    if (!isSelected) onSelect?.(box.id, e.shiftKey);
     setIsResizing(direction);
     startPos.current = {
       x: e.clientX,
@@ -202,6 +277,19 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
     };
   };
 
+  const handleRotateStart = (e: React.MouseEvent) => {
+    if (isDraggingColumn) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!isSelected) onSelect?.(box.id, e.shiftKey);
+    const rect = boxRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    // The bounding rect of a rotated element still shares its center
+    rotationCenter.current = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    setIsRotating(true);
+  };
+
   return (
     <div
       ref={boxRef}
@@ -210,18 +298,25 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
           ? isHovered
             ? 'border-[#8B4513] bg-[#8B4513]/40 shadow-[0_0_20px_rgba(139,69,19,0.8)] animate-pulse cursor-crosshair'
             : 'border-[#8B4513] bg-[#8B4513]/20 shadow-[0_0_15px_rgba(139,69,19,0.5)] cursor-crosshair'
-          : 'border-[#8B4513] bg-[#F5E6D3]/50 cursor-move'
-      }`}
+          : isSelected
+            ? 'border-[#2C1810] bg-[#F5E6D3]/50 ring-2 ring-offset-1 ring-[#2C1810]'
+            : 'border-[#8B4513] bg-[#F5E6D3]/50'
+      } ${isDraggingColumn ? '' : box.locked ? 'cursor-default border-dashed' : 'cursor-move'}`}
       style={{
         left: `${box.x * scale}px`,
         top: `${box.y * scale}px`,
         width: `${box.width * scale}px`,
         height: `${box.height * scale}px`,
-        willChange: isDragging || isResizing ? 'transform' : 'auto',
+        transform: box.rotation ? `rotate(${box.rotation}deg)` : undefined,
+        willChange: isDragging || isResizing || isRotating ? 'transform' : 'auto',
       }}
       onMouseDown={handleMouseDown}
     >
-      {!isDraggingColumn && (
+      {box.locked && !isDraggingColumn && (
+        <Lock className="absolute top-0.5 left-0.5 h-3 w-3 text-[#8B4513] pointer-events-none z-10" />
+      )}
+
+      {!isDraggingColumn && !box.locked && (
         <Button
           variant="destructive"
           size="icon"
@@ -235,9 +330,21 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
         </Button>
       )}
 
-      {/* Resize handles - only show when not dragging column */}
-      {!isDraggingColumn && (
+      {/* Resize and rotate handles - only show when not dragging column or locked */}
+      {!isDraggingColumn && !box.locked && (
         <>
+          <div
+            className="absolute -top-9 left-1/2 -translate-x-1/2 flex flex-col items-center opacity-0 group-hover:opacity-100 transition-opacity"
+            title="Rotate (Shift for 15° steps)"
+          >
+            <div
+              className="w-5 h-5 bg-[#F5E6D3] rounded-full cursor-grab border-2 border-[#8B4513] hover:bg-[#DCC9B3] flex items-center justify-center"
+              onMouseDown={handleRotateStart}
+            >
+              <RotateCw className="h-3 w-3 text-[#8B4513]" />
+            </div>
+            <div className="w-0.5 h-3 bg-[#8B4513]" />
+          </div>
           <div
             className="absolute -top-2 -left-2 w-4 h-4 bg-[#8B4513] rounded-full cursor-nw-resize border-2 border-[#654321] hover:bg-[#654321] transition-colors opacity-0 group-hover:opacity-100"
             onMouseDown={handleResizeStart("nw")}
@@ -288,9 +395,15 @@ export const DraggableBox = ({ box, onUpdate, onDelete, scale, isDraggingColumn,
         </div>
       )}
       
-      {box.columnId && !isDraggingColumn && (
-        <div className="absolute inset-0 flex items-center justify-center text-xs font-mono text-[#8B4513] pointer-events-none font-bold bg-[#F5E6D3]/70">
-          {box.columnId}
+      {label && !isDraggingColumn && (
+        <div
+          className="absolute inset-0 flex items-center justify-center text-xs text-[#8B4513] pointer-events-none font-bold bg-[#F5E6D3]/70"
+          style={{
+            fontFamily: box.typography.fontFamily,
+            fontStyle: box.typography.italic ? "italic" : "normal",
+          }}
+        >
+          <span className="truncate px-1">{label}</span>
         </div>
       )}
     </div>
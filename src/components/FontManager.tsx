@@ -0,0 +1,100 @@
+import { useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, Type, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { CustomFont, FONT_FILE_FORMATS, readFontFile } from "@/lib/fonts";
+
+interface FontManagerProps {
+  fonts: CustomFont[];
+  onAddFonts: (fonts: CustomFont[]) => void;
+  onRemoveFont: (font: CustomFont) => void;
+}
+
+export const FontManager = ({ fonts, onAddFonts, onRemoveFont }: FontManagerProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setIsLoading(true);
+    const loaded: CustomFont[] = [];
+    for (const file of files) {
+      try {
+        loaded.push(await readFontFile(file));
+      } catch (error) {
+        console.error(error);
+        toast.error(`"${file.name}" is not a valid font file`);
+      }
+    }
+    setIsLoading(false);
+
+    if (loaded.length > 0) {
+      onAddFonts(loaded);
+      toast.success(`Added ${loaded.map((f) => f.family).join(", ")}`);
+    }
+  };
+
+  return (
+    <Card className="p-4 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[4px_4px_0_#654321]">
+      <div className="mb-3 pb-2 border-b-2 border-[#8B4513] flex items-center justify-between">
+        <h3 className="text-base font-bold text-[#2C1810] font-headline uppercase tracking-wide">Fonts</h3>
+        <Button
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[2px_2px_0_#654321] font-body font-bold uppercase"
+        >
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Upload
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          accept={FONT_FILE_FORMATS}
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {fonts.length === 0 ? (
+        <p className="text-xs text-[#654321] font-body italic text-center">
+          Upload TTF, OTF, WOFF or WOFF2 files to use them in text boxes
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {fonts.map((font) => (
+            <li
+              key={font.id}
+              className="flex items-center gap-2 border-2 border-[#C9B8A3] px-2 py-1 text-sm text-[#2C1810]"
+            >
+              <Type className="h-4 w-4 text-[#8B4513] shrink-0" />
+              <span
+                className="flex-1 truncate"
+                style={{ fontFamily: font.family, fontWeight: font.weight, fontStyle: font.style }}
+                title={font.fileName}
+              >
+                {font.family}
+              </span>
+              <span className="text-xs font-mono text-[#654321]">
+                {font.weight}
+                {font.style === "italic" ? "i" : ""}
+              </span>
+              <button
+                onClick={() => onRemoveFont(font)}
+                className="hover:bg-[#8B4513]/10 p-1 rounded transition-colors"
+                title="Remove font"
+              >
+                <X className="h-3 w-3 text-[#8B4513]" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,116 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { BoxPosition } from "./DraggableBox";
+import { NumberField } from "./NumberField";
+import { BoxGeometry, MIN_BOX_HEIGHT, MIN_BOX_WIDTH, normalizeAngle } from "@/lib/geometry";
+import { LENGTH_UNITS, LengthUnit, fromUnit, roundForUnit, toUnit } from "@/lib/units";
+
+interface GeometryInspectorProps {
+  box: BoxPosition;
+  unit: LengthUnit;
+  dpi: number;
+  onUnitChange: (unit: LengthUnit) => void;
+  onDpiChange: (dpi: number) => void;
+  onChange: (geometry: BoxGeometry) => void;
+  onRotationChange: (rotation: number) => void;
+}
+
+const fieldClass = "h-8 border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-body";
+const labelClass = "text-xs text-[#654321] font-body font-bold uppercase";
+
+const FIELDS: Array<{ field: keyof BoxGeometry; label: string; min: number }> = [
+  { field: "x", label: "X", min: 0 },
+  { field: "y", label: "Y", min: 0 },
+  { field: "width", label: "Width", min: MIN_BOX_WIDTH },
+  { field: "height", label: "Height", min: MIN_BOX_HEIGHT },
+];
+
+export const GeometryInspector = ({
+  box,
+  unit,
+  dpi,
+  onUnitChange,
+  onDpiChange,
+  onChange,
+  onRotationChange,
+}: GeometryInspectorProps) => {
+  const { x, y, width, height } = box;
+  const geometry = { x, y, width, height };
+
+  const update = (field: keyof BoxGeometry, min: number, value: number) => {
+    onChange({ ...geometry, [field]: Math.max(min, fromUnit(value, unit, dpi)) });
+  };
+
+  return (
+    <Card className="p-4 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[4px_4px_0_#654321]">
+      <div className="mb-3 pb-2 border-b-2 border-[#8B4513] flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-base font-bold text-[#2C1810] font-headline uppercase tracking-wide">
+            Position & Size
+          </h3>
+          <p className="text-xs text-[#654321] font-body italic">
+            {box.locked ? "Unlock the box to move or resize it" : "Arrow keys nudge, Shift+arrow by 10"}
+          </p>
+        </div>
+        <ToggleGroup
+          type="single"
+          value={unit}
+          onValueChange={(value) => value && onUnitChange(value as LengthUnit)}
+          className="border-2 border-[#8B4513]"
+        >
+          {LENGTH_UNITS.map((u) => (
+            <ToggleGroupItem key={u} value={u} className="h-7 px-2 text-xs font-body font-bold">
+              {u}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map(({ field, label, min }) => (
+          <div key={field} className="space-y-1">
+            <Label className={labelClass}>
+              {label} ({unit})
+            </Label>
+            <NumberField
+              value={roundForUnit(toUnit(box[field], unit, dpi), unit)}
+              step={unit === "in" ? 0.01 : unit === "mm" ? 0.1 : 1}
+              onCommit={(value) => update(field, min, value)}
+              disabled={box.locked}
+              className={fieldClass}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Rotation (°)</Label>
+          <NumberField
+            value={box.rotation}
+            step={1}
+            onCommit={(value) => onRotationChange(normalizeAngle(value))}
+            disabled={box.locked}
+            className={fieldClass}
+          />
+        </div>
+
+        {unit !== "px" && (
+          <div className="col-span-2 space-y-1">
+            <Label className={labelClass}>Template resolution (DPI)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={dpi}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0) onDpiChange(value);
+              }}
+              className={fieldClass}
+            />
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
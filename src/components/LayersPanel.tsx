@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Eye, EyeOff, GripVertical, Lock, Unlock } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BoxPosition } from "./DraggableBox";
+
+interface LayersPanelProps {
+  /** In z-order, bottom first, as they are stored and drawn */
+  boxes: BoxPosition[];
+  selectedBoxIds: string[];
+  onSelect: (id: string, additive: boolean) => void;
+  onRename: (id: string, name: string) => void;
+  onToggleLocked: (id: string) => void;
+  onToggleHidden: (id: string) => void;
+  /** Moves a box to `index` in the bottom-first order */
+  onReorder: (id: string, index: number) => void;
+}
+
+export const LayersPanel = ({
+  boxes,
+  selectedBoxIds,
+  onSelect,
+  onRename,
+  onToggleLocked,
+  onToggleHidden,
+  onReorder,
+}: LayersPanelProps) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; above: boolean } | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const finishRename = () => {
+    if (renaming?.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const handleDrop = () => {
+    if (draggedId && dropTarget && draggedId !== dropTarget.id) {
+      const from = boxes.findIndex((b) => b.id === draggedId);
+      // "Above" in the list means higher in z-order, i.e. later in the array
+      let to = boxes.findIndex((b) => b.id === dropTarget.id) + (dropTarget.above ? 1 : 0);
+      if (from < to) to -= 1;
+      if (from !== to) onReorder(draggedId, to);
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <Card className="p-4 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[4px_4px_0_#654321]">
+      <div className="mb-3 pb-2 border-b-2 border-[#8B4513]">
+        <h3 className="text-base font-bold text-[#2C1810] font-headline uppercase tracking-wide">
+          Layers
+        </h3>
+        <p className="text-xs text-[#654321] font-body italic">Top of the list prints on top</p>
+      </div>
+
+      {boxes.length === 0 ? (
+        <p className="text-sm text-[#654321] font-body italic">No text boxes yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {[...boxes].reverse().map((box) => {
+            const isSelected = selectedBoxIds.includes(box.id);
+            return (
+              <li
+                key={box.id}
+                draggable={renaming?.id !== box.id}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDraggedId(box.id);
+                }}
+                onDragOver={(e) => {
+                  if (!draggedId) return;
+                  e.preventDefault();
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  setDropTarget({ id: box.id, above: e.clientY < rect.top + rect.height / 2 });
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop();
+                }}
+                onDragEnd={() => {
+                  setDraggedId(null);
+                  setDropTarget(null);
+                }}
+                onClick={(e) => onSelect(box.id, e.shiftKey)}
+                className={`flex items-center gap-1 px-1 py-1 border-2 cursor-pointer font-body text-sm ${
+                  isSelected ? "border-[#2C1810] bg-[#DCC9B3]" : "border-transparent hover:bg-[#8B4513]/10"
+                } ${draggedId === box.id ? "opacity-50" : ""} ${
+                  dropTarget?.id === box.id
+                    ? dropTarget.above
+                      ? "border-t-[#8B4513]"
+                      : "border-b-[#8B4513]"
+                    : ""
+                }`}
+              >
+                <GripVertical className="h-4 w-4 text-[#8B4513] opacity-60 cursor-grab shrink-0" />
+                {renaming?.id === box.id ? (
+                  <Input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ id: box.id, name: e.target.value })}
+                    onBlur={finishRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") finishRename();
+                      if (e.key === "Escape") setRenaming(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-6 border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-body text-sm"
+                  />
+                ) : (
+                  <span
+                    className={`flex-1 truncate text-[#2C1810] ${box.hidden ? "opacity-50 line-through" : ""}`}
+                    title="Double-click to rename"
+                    onDoubleClick={() => setRenaming({ id: box.id, name: box.name })}
+                  >
+                    {box.name}
+                  </span>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title={box.hidden ? "Show" : "Hide"}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleHidden(box.id);
+                  }}
+                  className="h-6 w-6 text-[#8B4513] hover:bg-[#8B4513]/10 shrink-0"
+                >
+                  {box.hidden ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title={box.locked ? "Unlock" : "Lock"}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleLocked(box.id);
+                  }}
+                  className="h-6 w-6 text-[#8B4513] hover:bg-[#8B4513]/10 shrink-0"
+                >
+                  {box.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
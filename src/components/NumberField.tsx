@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+
+interface NumberFieldProps {
+  value: number;
+  step: number;
+  /** Committed values are clamped up to this */
+  min?: number;
+  onCommit: (value: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/** Number field that only commits on blur or Enter, so partial input like "9." or "0" isn't applied */
+export const NumberField = ({ value, step, min, onCommit, disabled, className }: NumberFieldProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    const parsed = parseFloat(draft ?? "");
+    if (!Number.isNaN(parsed)) {
+      const clamped = min === undefined ? parsed : Math.max(min, parsed);
+      if (clamped !== value) onCommit(clamped);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      type="number"
+      step={step}
+      min={min}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+      disabled={disabled}
+      className={className}
+    />
+  );
+};
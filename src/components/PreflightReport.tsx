@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle2, Eye, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CertificateLayout } from "@/lib/renderer";
+import type { DatasetRow } from "@/lib/dataset";
+import {
+  DEFAULT_READABLE_FONT_SIZE,
+  ISSUE_LABELS,
+  PreflightIssue,
+  PreflightIssueKind,
+  runPreflight,
+} from "@/lib/preflight";
+
+interface PreflightReportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layout: CertificateLayout;
+  rows: DatasetRow[];
+  onJumpToRow: (rowIndex: number) => void;
+}
+
+const ISSUE_COLORS: Record<PreflightIssueKind, string> = {
+  empty: "bg-yellow-100 border-yellow-500 text-yellow-800",
+  overflow: "bg-red-100 border-red-500 text-red-700",
+  truncated: "bg-orange-100 border-orange-500 text-orange-700",
+  "too-small": "bg-blue-100 border-blue-500 text-blue-700",
+};
+
+export const PreflightReport = ({ open, onOpenChange, layout, rows, onJumpToRow }: PreflightReportProps) => {
+  const [issues, setIssues] = useState<PreflightIssue[] | null>(null);
+  const [readableSize, setReadableSize] = useState(DEFAULT_READABLE_FONT_SIZE);
+  const [checkedRows, setCheckedRows] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCheck = async () => {
+    setIsRunning(true);
+    setError(null);
+    setCheckedRows(0);
+    try {
+      setIssues(await runPreflight(layout, rows, readableSize, setCheckedRows));
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message);
+      setIssues(null);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) runCheck();
+    // Only re-run when the dialog is opened, the layout may change under it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const affectedRows = new Set(
+    issues?.filter((issue) => issue.rowIndex !== null).map((issue) => issue.rowIndex)
+  ).size;
+  const counts = (issues ?? []).reduce<Partial<Record<PreflightIssueKind, number>>>((acc, issue) => {
+    acc[issue.kind] = (acc[issue.kind] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl bg-[#F5E6D3] border-4 border-[#8B4513]">
+        <DialogHeader>
+          <DialogTitle className="font-body text-[#8B4513] uppercase text-xl">📋 Pre-flight Check</DialogTitle>
+          <DialogDescription className="font-body text-[#654321]">
+            Every mapped value is measured against its box before you generate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3 border-b-2 border-[#8B4513] pb-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-[#654321] font-body font-bold uppercase">Readable size (px)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={readableSize}
+              onChange={(e) => setReadableSize(parseFloat(e.target.value) || 1)}
+              className="h-8 w-28 border-2 border-[#8B4513] bg-[#F5E6D3] font-body"
+            />
+          </div>
+          <Button
+            onClick={runCheck}
+            disabled={isRunning}
+            className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[2px_2px_0_#654321] font-body font-bold uppercase"
+          >
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Re-check
+          </Button>
+        </div>
+
+        {isRunning && (
+          <div className="space-y-2">
+            <Progress value={(checkedRows / Math.max(rows.length, 1)) * 100} />
+            <p className="text-xs text-center text-[#654321] font-body">
+              Checked {checkedRows} of {rows.length} rows
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-700 font-body">{error}</p>}
+
+        {!isRunning && issues && issues.length === 0 && (
+          <div className="flex items-center gap-2 p-4 border-2 border-green-500 bg-green-100 text-green-700 font-body">
+            <CheckCircle2 className="h-5 w-5" />
+            All {rows.length} rows fit their boxes.
+          </div>
+        )}
+
+        {!isRunning && issues && issues.length > 0 && (
+          <>
+            <div className="flex items-center gap-2 flex-wrap text-sm font-body text-[#2C1810]">
+              <AlertTriangle className="h-4 w-4 text-[#8B4513]" />
+              <span className="font-bold">
+                {affectedRows} of {rows.length} rows need attention
+              </span>
+              {(Object.keys(counts) as PreflightIssueKind[]).map((kind) => (
+                <span key={kind} className={`text-xs px-2 py-0.5 border rounded-full ${ISSUE_COLORS[kind]}`}>
+                  {ISSUE_LABELS[kind]}: {counts[kind]}
+                </span>
+              ))}
+            </div>
+
+            <div className="max-h-96 overflow-auto border-2 border-[#8B4513]">
+              <table className="w-full text-xs border-collapse">
+                <thead className="sticky top-0 bg-[#DCC9B3]">
+                  <tr className="border-b-2 border-[#8B4513] text-left font-body uppercase text-[#2C1810]">
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Box</th>
+                    <th className="px-3 py-2">Issue</th>
+                    <th className="px-3 py-2">Value</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.map((issue, idx) => (
+                    <tr key={idx} className="border-b border-[#C9B8A3] hover:bg-[#E8DCC8] font-body text-[#4A3728]">
+                      <td className="px-3 py-2 font-mono">
+                        {issue.rowIndex === null ? "All" : issue.rowIndex + 1}
+                      </td>
+                      <td className="px-3 py-2 font-mono">
+                        {layout.boxes.find((box) => box.id === issue.boxId)?.name ?? issue.boxId}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 border rounded-full whitespace-nowrap ${ISSUE_COLORS[issue.kind]}`}>
+                          {ISSUE_LABELS[issue.kind]}
+                          {issue.kind === "too-small" && ` (${issue.fontSize}px)`}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 max-w-xs truncate" title={issue.text}>
+                        {issue.text || <span className="italic opacity-60">(blank)</span>}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => onJumpToRow(issue.rowIndex ?? 0)}
+                          className="inline-flex items-center gap-1 hover:bg-[#8B4513]/10 px-2 py-1 rounded transition-colors text-[#8B4513] font-bold uppercase"
+                          title="Show this row in the preview"
+                        >
+                          <Eye className="h-3 w-3" />
+                          View
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SheetSummary, cellText } from "@/lib/dataset";
+
+interface SheetPickerProps {
+  /** The workbook's sheets; the picker is open while this is non-null */
+  sheets: SheetSummary[] | null;
+  fileName: string;
+  /** Sheet to select first, e.g. the one the project used last time */
+  defaultSheet?: string;
+  onConfirm: (sheetName: string) => void;
+  onCancel: () => void;
+}
+
+export const SheetPicker = ({ sheets, fileName, defaultSheet, onConfirm, onCancel }: SheetPickerProps) => {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sheets) return;
+    const remembered = sheets.find((sheet) => sheet.name === defaultSheet);
+    setSelected((remembered ?? sheets[0])?.name ?? null);
+  }, [sheets, defaultSheet]);
+
+  const sheet = sheets?.find((s) => s.name === selected);
+
+  return (
+    <Dialog open={!!sheets} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl bg-[#F5E6D3] border-4 border-[#8B4513]">
+        <DialogHeader>
+          <DialogTitle className="font-body text-[#8B4513] uppercase">Choose a worksheet</DialogTitle>
+          <DialogDescription className="font-body text-[#654321]">
+            "{fileName}" has {sheets?.length} sheets. Pick the one holding your data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-4 min-h-0">
+          <ul className="space-y-1 max-h-72 overflow-y-auto" role="listbox" aria-label="Worksheets">
+            {sheets?.map((s) => (
+              <li
+                key={s.name}
+                role="option"
+                aria-selected={s.name === selected}
+                onClick={() => setSelected(s.name)}
+                onDoubleClick={() => s.rowCount > 0 && onConfirm(s.name)}
+                className={`flex items-start gap-2 px-2 py-1 border-2 cursor-pointer font-body ${
+                  s.name === selected ? "border-[#2C1810] bg-[#DCC9B3]" : "border-transparent hover:bg-[#8B4513]/10"
+                }`}
+              >
+                <FileSpreadsheet className="h-4 w-4 mt-0.5 text-[#8B4513] shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-[#2C1810] truncate">{s.name}</p>
+                  <p className="text-xs text-[#654321]">
+                    {s.rowCount} rows × {s.columnCount} columns
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="overflow-auto max-h-72 border-2 border-[#8B4513] bg-[#F5E6D3]">
+            {sheet && sheet.preview.length > 0 ? (
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="border-b-4 border-double border-[#8B4513]">
+                    {sheet.preview[0].map((cell, idx) => (
+                      <th
+                        key={idx}
+                        className="px-3 py-2 text-left font-bold bg-[#DCC9B3] text-[#2C1810] font-body uppercase border-r-2 border-[#8B4513] last:border-r-0 whitespace-nowrap"
+                      >
+                        {cellText(cell)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.preview.slice(1).map((row, rowIdx) => (
+                    <tr key={rowIdx} className="border-b border-[#C9B8A3]">
+                      {row.map((cell, cellIdx) => (
+                        <td
+                          key={cellIdx}
+                          className="px-3 py-2 text-[#4A3728] font-body border-r border-[#C9B8A3] last:border-r-0 whitespace-nowrap"
+                        >
+                          {cellText(cell)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="p-4 text-sm text-[#654321] font-body italic">This sheet is empty</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={onCancel}
+            className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] font-bold font-body uppercase"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => selected && onConfirm(selected)}
+            disabled={!sheet || sheet.rowCount === 0}
+            className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] font-bold font-body uppercase"
+          >
+            Use this sheet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,35 @@
+import { Grid3x3, Magnet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SnapSettings } from "@/lib/snapping";
+
+interface SnapControlsProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+}
+
+export const SnapControls = ({ settings, onChange }: SnapControlsProps) => (
+  <div className="flex items-center gap-1 border-2 border-[#8B4513] bg-[#F5E6D3] shadow-[3px_3px_0_#654321] px-1">
+    <Button
+      size="icon"
+      variant="ghost"
+      title={settings.enabled ? "Snapping on (hold Alt to bypass)" : "Snapping off"}
+      onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+      className={`h-8 w-8 text-[#8B4513] hover:bg-[#8B4513]/10 ${settings.enabled ? "bg-[#8B4513]/20" : ""}`}
+    >
+      <Magnet className="h-4 w-4" />
+    </Button>
+    <Grid3x3 className="h-4 w-4 text-[#8B4513] ml-1" />
+    <Input
+      type="number"
+      min={0}
+      step={5}
+      value={settings.gridSize || ""}
+      placeholder="Off"
+      title="Grid size in template pixels"
+      disabled={!settings.enabled}
+      onChange={(e) => onChange({ ...settings, gridSize: Math.max(0, parseInt(e.target.value) || 0) })}
+      className="h-7 w-16 border-2 border-[#8B4513] bg-[#F5E6D3] font-body text-xs"
+    />
+  </div>
+);
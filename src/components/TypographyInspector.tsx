@@ -0,0 +1,258 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  AlignVerticalJustifyCenter,
+  AlignVerticalJustifyEnd,
+  AlignVerticalJustifyStart,
+} from "lucide-react";
+import { BoxPosition } from "./DraggableBox";
+import { NumberField } from "./NumberField";
+import {
+  BoxTypography,
+  FONT_WEIGHTS,
+  HorizontalAlign,
+  SYSTEM_FONT_FAMILIES,
+  VerticalAlign,
+} from "@/lib/typography";
+import { BoxOverflow, OverflowMode } from "@/lib/textLayout";
+
+interface TypographyInspectorProps {
+  box: BoxPosition;
+  customFamilies: string[];
+  onChange: (typography: BoxTypography) => void;
+  onOverflowChange: (overflow: BoxOverflow) => void;
+}
+
+const fieldClass = "h-8 border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-body";
+const labelClass = "text-xs text-[#654321] font-body font-bold uppercase";
+
+export const TypographyInspector = ({
+  box,
+  customFamilies,
+  onChange,
+  onOverflowChange,
+}: TypographyInspectorProps) => {
+  const { typography, overflow } = box;
+
+  const update = (changes: Partial<BoxTypography>) => {
+    onChange({ ...typography, ...changes });
+  };
+
+  const updateOverflow = (changes: Partial<BoxOverflow>) => {
+    onOverflowChange({ ...overflow, ...changes });
+  };
+
+  const changeMode = (mode: OverflowMode) => {
+    // A single wrapped line is just truncation, so start wrapping with room to wrap
+    const maxLines = mode === "wrap" && overflow.maxLines < 2 ? 2 : overflow.maxLines;
+    updateOverflow({ mode, maxLines });
+  };
+
+  const available = [...customFamilies, ...SYSTEM_FONT_FAMILIES];
+  // Keep a family that was removed selectable so the box doesn't silently change font
+  const families = available.includes(typography.fontFamily)
+    ? available
+    : [typography.fontFamily, ...available];
+
+  return (
+    <Card className="p-4 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[4px_4px_0_#654321]">
+      <div className="mb-3 pb-2 border-b-2 border-[#8B4513]">
+        <h3 className="text-base font-bold text-[#2C1810] font-headline uppercase tracking-wide">
+          Typography
+        </h3>
+        <p className="text-xs text-[#654321] font-body italic">{box.name}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2 space-y-1">
+          <Label className={labelClass}>Font</Label>
+          <Select value={typography.fontFamily} onValueChange={(fontFamily) => update({ fontFamily })}>
+            <SelectTrigger className={fieldClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {families.map((family) => (
+                <SelectItem key={family} value={family} style={{ fontFamily: family }}>
+                  {family}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Size (px)</Label>
+          <Input
+            type="number"
+            min={1}
+            placeholder="Auto"
+            value={typography.fontSize === "auto" ? "" : typography.fontSize}
+            onChange={(e) => {
+              const size = parseFloat(e.target.value);
+              update({ fontSize: size > 0 ? size : "auto" });
+            }}
+            className={fieldClass}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Weight</Label>
+          <Select
+            value={String(typography.fontWeight)}
+            onValueChange={(weight) => update({ fontWeight: Number(weight) })}
+          >
+            <SelectTrigger className={fieldClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FONT_WEIGHTS.map((weight) => (
+                <SelectItem key={weight} value={String(weight)}>
+                  {weight}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Color</Label>
+          <Input
+            type="color"
+            value={typography.color}
+            onChange={(e) => update({ color: e.target.value })}
+            className={`${fieldClass} p-1`}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Letter spacing</Label>
+          <NumberField
+            step={0.5}
+            value={typography.letterSpacing}
+            onCommit={(letterSpacing) => update({ letterSpacing })}
+            className={fieldClass}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Line height</Label>
+          <NumberField
+            min={0.5}
+            step={0.1}
+            value={typography.lineHeight}
+            onCommit={(lineHeight) => update({ lineHeight })}
+            className={fieldClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className={labelClass}>Italic</Label>
+            <Switch checked={typography.italic} onCheckedChange={(italic) => update({ italic })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label className={labelClass}>Small caps</Label>
+            <Switch checked={typography.smallCaps} onCheckedChange={(smallCaps) => update({ smallCaps })} />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Horizontal</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={typography.align}
+            onValueChange={(align) => align && update({ align: align as HorizontalAlign })}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="left" title="Align left">
+              <AlignLeft className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="center" title="Align center">
+              <AlignCenter className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="right" title="Align right">
+              <AlignRight className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-1">
+          <Label className={labelClass}>Vertical</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={typography.verticalAlign}
+            onValueChange={(align) => align && update({ verticalAlign: align as VerticalAlign })}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="top" title="Align top">
+              <AlignVerticalJustifyStart className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="middle" title="Align middle">
+              <AlignVerticalJustifyCenter className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="bottom" title="Align bottom">
+              <AlignVerticalJustifyEnd className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="col-span-2 pt-2 border-t-2 border-[#C9B8A3] space-y-1">
+          <Label className={labelClass}>Long text</Label>
+          <Select value={overflow.mode} onValueChange={(mode) => changeMode(mode as OverflowMode)}>
+            <SelectTrigger className={fieldClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="shrink">Shrink to fit</SelectItem>
+              <SelectItem value="wrap">Wrap lines</SelectItem>
+              <SelectItem value="ellipsis">Truncate with …</SelectItem>
+              <SelectItem value="none">Allow overflow</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {overflow.mode === "shrink" && (
+          <div className="space-y-1">
+            <Label className={labelClass}>Min size (px)</Label>
+            <NumberField
+              min={1}
+              step={1}
+              value={overflow.minFontSize}
+              onCommit={(minFontSize) => updateOverflow({ minFontSize })}
+              className={fieldClass}
+            />
+          </div>
+        )}
+
+        {(overflow.mode === "shrink" || overflow.mode === "wrap") && (
+          <div className="space-y-1">
+            <Label className={labelClass}>Max lines</Label>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={overflow.maxLines}
+              onChange={(e) => updateOverflow({ maxLines: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={fieldClass}
+            />
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -1,11 +1,52 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useLayoutEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Plus, Download, Loader2 } from "lucide-react";
+import { Plus, Download, Loader2, ClipboardCheck, Type, Undo2, Redo2 } from "lucide-react";
 import { DraggableBox, BoxPosition } from "./DraggableBox";
-import { DatasetPreview, ColumnMapping } from "./DatasetPreview";
+import { DatasetPreview } from "./DatasetPreview";
 import { CertificatePreview } from "./CertificatePreview";
+import { TypographyInspector } from "./TypographyInspector";
+import { ContentInspector } from "./ContentInspector";
+import { FontManager } from "./FontManager";
+import { PreflightReport } from "./PreflightReport";
+import { ZoomControls } from "./ZoomControls";
+import { SnapControls } from "./SnapControls";
+import { AlignmentControls } from "./AlignmentControls";
+import { GeometryInspector } from "./GeometryInspector";
+import { LayersPanel } from "./LayersPanel";
+import { BoxContextMenu } from "./BoxContextMenu";
 import { toast } from "sonner";
 import JSZip from "jszip";
+import { CertificateLayout, hasBoxContent, renderCertificateBlob } from "@/lib/renderer";
+import { BoxTypography, DEFAULT_TYPOGRAPHY } from "@/lib/typography";
+import { BoxOverflow, DEFAULT_OVERFLOW } from "@/lib/textLayout";
+import { BoxContent, placeholderFor } from "@/lib/textTemplate";
+import { EMPTY_LAYOUT, ProjectLayout } from "@/lib/project";
+import type { DatasetRow } from "@/lib/dataset";
+import { CustomFont, customFamilies, registerFont, unregisterFont } from "@/lib/fonts";
+import {
+  AlignMode,
+  BoxGeometry,
+  DistributeAxis,
+  MIN_BOX_HEIGHT,
+  MIN_BOX_WIDTH,
+  alignBoxes,
+  boundsOf,
+  distributeBoxes,
+  containsPoint,
+  intersects,
+  rotatedBounds,
+} from "@/lib/geometry";
+import {
+  DEFAULT_SNAP_SETTINGS,
+  SNAP_THRESHOLD,
+  SnapGuide,
+  SnapSettings,
+  snapGeometry,
+} from "@/lib/snapping";
+import { LengthUnit, fromUnit } from "@/lib/units";
+import { createId } from "@/lib/utils";
+import { BoxClipboard, PASTE_OFFSET, cloneBoxes, parseBoxes, serializeBoxes } from "@/lib/clipboard";
+import { useHistory } from "@/hooks/use-history";
 
 // SVG component for curved arrows
 const CurvedArrow = ({ 
@@ -68,52 +109,223 @@ const CurvedArrow = ({
 interface WorkspaceCanvasProps {
   templateUrl: string;
   columns: string[];
-  rows: string[][];
+  rows: DatasetRow[];
+  initialLayout?: ProjectLayout;
+  onLayoutChange?: (layout: ProjectLayout) => void;
 }
 
-export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasProps) => {
-  const [boxes, setBoxes] = useState<BoxPosition[]>([]);
-  const [columnMappings, setColumnMappings] = useState<ColumnMapping[]>([]);
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Zoomed templates extend past the viewport; hidden parts can't be drop targets
+const isOverElement = (element: HTMLElement | null, clientX: number, clientY: number) => {
+  const rect = element?.getBoundingClientRect();
+  return !!rect && clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom;
+};
+
+// One past the highest "<prefix> <n>" in use, so deleting a box doesn't lead to a repeated name
+const nextBoxName = (prefix: string, boxes: BoxPosition[]) => {
+  const numbers = boxes.map((box) => box.name.match(new RegExp(`^${prefix} (\\d+)$`))?.[1]);
+  return `${prefix} ${Math.max(0, ...numbers.map(Number).filter(Number.isFinite)) + 1}`;
+};
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  !!target.closest("input, textarea, select, [contenteditable='true']");
+
+export const WorkspaceCanvas = ({
+  templateUrl,
+  columns,
+  rows,
+  initialLayout = EMPTY_LAYOUT,
+  onLayoutChange,
+}: WorkspaceCanvasProps) => {
+  const history = useHistory<ProjectLayout>(initialLayout);
+  const layout = history.present;
+  const { boxes, columnMappings, fonts } = layout;
   const [draggingColumn, setDraggingColumn] = useState<string | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
   const [dragStartPos, setDragStartPos] = useState({ x: 0, y: 0 });
   const [hoveredBox, setHoveredBox] = useState<string | null>(null);
+  const [selectedBoxIds, setSelectedBoxIds] = useState<string[]>([]);
+  // Rubber-band selection in template pixels, started on the empty canvas
+  const [marquee, setMarquee] = useState<{
+    startX: number;
+    startY: number;
+    endX: number;
+    endY: number;
+    additive: boolean;
+  } | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [previewRowIndex, setPreviewRowIndex] = useState(0);
+  const [showPreflight, setShowPreflight] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
-  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
-  const [scale, setScale] = useState(1);
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
+  const [fitScale, setFitScale] = useState(1);
+  // Screen pixels per template pixel; "fit" follows the container width
+  const [zoom, setZoom] = useState<number | "fit">("fit");
+  const scale = zoom === "fit" ? fitScale : zoom;
+  const zoomAnchor = useRef<{ x: number; y: number; contentX: number; contentY: number } | null>(null);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const panStart = useRef({ x: 0, y: 0, scrollLeft: 0, scrollTop: 0 });
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const [unit, setUnit] = useState<LengthUnit>("px");
+  // Typography and overflow picked up by "Copy style" in a box's context menu
+  const [copiedStyle, setCopiedStyle] = useState<Pick<BoxPosition, "typography" | "overflow"> | null>(null);
+  // Re-render on scroll so the mapping arrows follow the boxes
+  const [, setScrollPosition] = useState({ left: 0, top: 0 });
 
   useEffect(() => {
-    const updateImageSize = () => {
-      if (imageRef.current) {
-        const rect = imageRef.current.getBoundingClientRect();
-        setImageSize({ width: rect.width, height: rect.height });
-        setScale(rect.width / imageRef.current.naturalWidth);
-      }
-    };
+    const image = imageRef.current;
+    if (image?.complete && image.naturalWidth) {
+      setNaturalSize({ width: image.naturalWidth, height: image.naturalHeight });
+    }
+  }, [templateUrl]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !naturalSize.width) return;
+
+    const updateFitScale = () => setFitScale(container.clientWidth / naturalSize.width);
+    updateFitScale();
 
-    if (imageRef.current?.complete) {
-      updateImageSize();
+    const observer = new ResizeObserver(updateFitScale);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [naturalSize.width]);
+
+  /** Changes the zoom while keeping the template point under `anchor` (or the viewport center) in place */
+  const zoomTo = (next: number | "fit", anchor?: { clientX: number; clientY: number }) => {
+    const container = containerRef.current;
+    if (container) {
+      const rect = container.getBoundingClientRect();
+      const x = anchor ? anchor.clientX - rect.left - container.clientLeft : container.clientWidth / 2;
+      const y = anchor ? anchor.clientY - rect.top - container.clientTop : container.clientHeight / 2;
+      zoomAnchor.current = {
+        x,
+        y,
+        contentX: (container.scrollLeft + x) / scale,
+        contentY: (container.scrollTop + y) / scale,
+      };
     }
+    setZoom(next === "fit" ? "fit" : clampZoom(next));
+  };
 
-    window.addEventListener("resize", updateImageSize);
-    return () => window.removeEventListener("resize", updateImageSize);
-  }, [templateUrl]);
+  useLayoutEffect(() => {
+    const anchor = zoomAnchor.current;
+    const container = containerRef.current;
+    if (!anchor || !container) return;
+    zoomAnchor.current = null;
+    container.scrollLeft = anchor.contentX * scale - anchor.x;
+    container.scrollTop = anchor.contentY * scale - anchor.y;
+  }, [scale]);
+
+  const zoomToRef = useRef(zoomTo);
+  zoomToRef.current = zoomTo;
+  const scaleRef = useRef(scale);
+  scaleRef.current = scale;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Registered natively because React's wheel listener is passive and can't stop page zoom
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      zoomToRef.current(scaleRef.current * Math.exp(-e.deltaY * 0.002), e);
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Focused buttons keep Space for activation
+      if (e.code !== "Space" || isTextInput(e.target) || (e.target as HTMLElement).closest?.("button")) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") setIsSpaceHeld(false);
+    };
+    const release = () => setIsSpaceHeld(false);
+
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", release);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", release);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isPanning) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const container = containerRef.current;
+      if (!container) return;
+      container.scrollLeft = panStart.current.scrollLeft - (e.clientX - panStart.current.x);
+      container.scrollTop = panStart.current.scrollTop - (e.clientY - panStart.current.y);
+    };
+    const handleMouseUp = () => setIsPanning(false);
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [isPanning]);
+
+  const handleViewportMouseDown = (e: React.MouseEvent) => {
+    const container = containerRef.current;
+    if (!isSpaceHeld || !container) return;
+    // Space-drag pans instead of reaching the boxes underneath
+    e.preventDefault();
+    e.stopPropagation();
+    panStart.current = {
+      x: e.clientX,
+      y: e.clientY,
+      scrollLeft: container.scrollLeft,
+      scrollTop: container.scrollTop,
+    };
+    setIsPanning(true);
+  };
+
+  useEffect(() => {
+    onLayoutChange?.(layout);
+  }, [layout, onLayoutChange]);
+
+  useEffect(() => {
+    // Fonts restored with a layout still need registering with the document
+    fonts.forEach((font) =>
+      registerFont(font).catch(() => toast.error(`Could not load font "${font.family}"`))
+    );
+  }, [fonts]);
 
   // Global mouse move listener for drag tracking
   useEffect(() => {
     const handleGlobalMouseMove = (e: MouseEvent) => {
       if (draggingColumn && imageRef.current) {
-        // Check if mouse is over any box
+        // Check if mouse is over any box, topmost first as later boxes paint over earlier ones
         const rect = imageRef.current.getBoundingClientRect();
         const x = (e.clientX - rect.left) / scale;
         const y = (e.clientY - rect.top) / scale;
 
-        const currentHoveredBox = boxes.find(
-          (box) =>
-            x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height
+        const currentHoveredBox = isOverElement(containerRef.current, e.clientX, e.clientY) && [...boxes].reverse().find(
+          (box) => !box.hidden && containsPoint(box, x, y)
         );
 
         if (currentHoveredBox) {
@@ -144,40 +356,503 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
     }
   }, [draggingColumn, boxes, scale]);
 
-  const addBox = () => {
+  const { commit, seal, undo, redo } = history;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields their own undo
+      if (isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    if (selectedBoxIds.length === 0) return;
+
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1],
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const step = steps[e.key];
+      // Toggle groups, menus and lists use the arrows to move focus
+      const inWidget = (e.target as HTMLElement).closest?.("[role='group'], [role='radiogroup'], [role='listbox'], [role='menu']");
+      if (!step || isTextInput(e.target) || inWidget) return;
+      e.preventDefault();
+      // One unit of whatever the inspector shows, ten with Shift
+      const distance = fromUnit(e.shiftKey ? 10 : 1, unit, layout.dpi);
+      commit(
+        (current) => ({
+          ...current,
+          boxes: current.boxes.map((b) =>
+            selectedBoxIds.includes(b.id) && !b.locked
+              ? { ...b, x: Math.max(0, b.x + step[0] * distance), y: Math.max(0, b.y + step[1] * distance) }
+              : b
+          ),
+        }),
+        selectedBoxIds.length > 1 ? "Move boxes" : "Move box",
+        `nudge:${selectedBoxIds.join(",")}`
+      );
+    };
+    // Holding an arrow repeats keydown, so a press and its repeats make one undo step
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (steps[e.key]) seal();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("keyup", handleKeyUp);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("keyup", handleKeyUp);
+    };
+  }, [selectedBoxIds, unit, layout.dpi, commit, seal]);
+
+  // Repeated pastes of the same clipboard cascade instead of stacking exactly
+  const pasteCount = useRef({ text: "", count: 0 });
+
+  const insertBoxes = (clipboard: BoxClipboard, offset: number, label: string) => {
+    const clones = cloneBoxes(clipboard, columns, fonts, offset);
+    // The fonts effect registers any fonts that came along with the boxes
+    commit(
+      (current) => ({
+        ...current,
+        boxes: [...current.boxes, ...clones.boxes],
+        columnMappings: [...current.columnMappings, ...clones.columnMappings],
+        fonts: [...current.fonts, ...clones.fonts],
+      }),
+      label
+    );
+    seal();
+    setSelectedBoxIds(clones.boxes.map((b) => b.id));
+    if (clones.columnMappings.length < clipboard.columnMappings.length) {
+      toast.info("Some pasted boxes were left unmapped, their columns aren't in this dataset");
+    }
+  };
+
+  const duplicateBoxes = (ids: string[]) => {
+    const source = boxes.filter((b) => ids.includes(b.id));
+    if (source.length === 0) return;
+    insertBoxes(
+      { boxes: source, columnMappings, fonts: [] },
+      PASTE_OFFSET,
+      source.length > 1 ? "Duplicate boxes" : "Duplicate box"
+    );
+  };
+
+  // The clipboard listeners below reach these through refs so they aren't re-added every render
+  const insertBoxesRef = useRef(insertBoxes);
+  insertBoxesRef.current = insertBoxes;
+  const duplicateBoxesRef = useRef(duplicateBoxes);
+  duplicateBoxesRef.current = duplicateBoxes;
+
+  useEffect(() => {
+    const selected = boxes.filter((b) => selectedBoxIds.includes(b.id));
+
+    // The copy and paste events give clipboard access without a permission prompt
+    const handleCopy = (e: ClipboardEvent) => {
+      if (selected.length === 0 || isTextInput(e.target) || !e.clipboardData) return;
+      // Leave ordinary copying of highlighted page text alone
+      if (window.getSelection()?.toString()) return;
+      e.preventDefault();
+      const text = serializeBoxes(selected, columnMappings, fonts);
+      e.clipboardData.setData("text/plain", text);
+      pasteCount.current = { text, count: 0 };
+      toast.success(selected.length > 1 ? `Copied ${selected.length} boxes` : "Copied box");
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTextInput(e.target)) return;
+      const text = e.clipboardData?.getData("text/plain") ?? "";
+      const clipboard = parseBoxes(text);
+      if (!clipboard) return;
+      e.preventDefault();
+      const count = pasteCount.current.text === text ? pasteCount.current.count + 1 : 1;
+      pasteCount.current = { text, count };
+      insertBoxesRef.current(clipboard, PASTE_OFFSET * count, clipboard.boxes.length > 1 ? "Paste boxes" : "Paste box");
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "d" || isTextInput(e.target)) return;
+      // Also keeps the browser's bookmark dialog from opening
+      e.preventDefault();
+      duplicateBoxesRef.current(selectedBoxIds);
+    };
+
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [boxes, columnMappings, fonts, selectedBoxIds]);
+
+  const updateBoxes = (
+    update: (box: BoxPosition) => BoxPosition,
+    id: string,
+    label: string,
+    coalesceKey?: string
+  ) =>
+    commit(
+      (current) => ({
+        ...current,
+        boxes: current.boxes.map((b) => (b.id === id ? update(b) : b)),
+      }),
+      label,
+      coalesceKey
+    );
+
+  const snapBox = (id: string, geometry: BoxGeometry, handle: string | null, bypass: boolean) => {
+    if (bypass || !snapSettings.enabled) {
+      setGuides([]);
+      return geometry;
+    }
+    const snapped = snapGeometry(
+      geometry,
+      handle,
+      // The rest of a group moves along, so only unselected boxes are targets
+      boxes.filter(
+        (b) => b.id !== id && !b.hidden && !(selectedBoxIds.includes(id) && selectedBoxIds.includes(b.id))
+      ),
+      naturalSize,
+      snapSettings,
+      SNAP_THRESHOLD / scale
+    );
+    setGuides(snapped.guides);
+    return snapped.geometry;
+  };
+
+  const endBoxGesture = () => {
+    seal();
+    setGuides([]);
+  };
+
+  const selectBoxes = (ids: string[]) => {
+    if (ids.length !== selectedBoxIds.length || ids.some((id) => !selectedBoxIds.includes(id))) seal();
+    setSelectedBoxIds(ids);
+  };
+
+  const selectBox = (id: string | null, additive = false) => {
+    if (id === null) {
+      selectBoxes([]);
+    } else if (!additive) {
+      selectBoxes([id]);
+    } else {
+      selectBoxes(
+        selectedBoxIds.includes(id) ? selectedBoxIds.filter((s) => s !== id) : [...selectedBoxIds, id]
+      );
+    }
+  };
+
+  const boxName = (id: string) => boxes.find((b) => b.id === id)?.name ?? id;
+
+  const addBox = (content: BoxContent = { type: "column" }) => {
     const newBox: BoxPosition = {
-      id: `box-${boxes.length + 1}`,
+      id: `box-${createId()}`,
+      name: nextBoxName(content.type === "static" ? "Static text" : "Text box", boxes),
+      locked: false,
+      hidden: false,
       x: 50 + boxes.length * 20,
       y: 50 + boxes.length * 20,
       width: 200,
       height: 40,
+      rotation: 0,
+      typography: { ...DEFAULT_TYPOGRAPHY },
+      overflow: { ...DEFAULT_OVERFLOW },
+      content,
     };
-    setBoxes([...boxes, newBox]);
+    commit((current) => ({ ...current, boxes: [...current.boxes, newBox] }), "Add box");
+    selectBox(newBox.id);
     toast.success("Text box added");
   };
 
   const updateBox = (updatedBox: BoxPosition) => {
-    setBoxes(boxes.map((b) => (b.id === updatedBox.id ? updatedBox : b)));
+    const box = boxes.find((b) => b.id === updatedBox.id);
+    const resized = box && (box.width !== updatedBox.width || box.height !== updatedBox.height);
+    const rotated = box && box.rotation !== updatedBox.rotation;
+    // The rest of a multi-selection follows with the same offsets
+    const group = selectedBoxIds.includes(updatedBox.id) ? selectedBoxIds : [updatedBox.id];
+    // A whole drag or resize gesture is one step, sealed by onUpdateEnd
+    commit(
+      (current) => {
+        const previous = current.boxes.find((b) => b.id === updatedBox.id);
+        if (!previous) return current;
+        const dx = updatedBox.x - previous.x;
+        const dy = updatedBox.y - previous.y;
+        const dw = updatedBox.width - previous.width;
+        const dh = updatedBox.height - previous.height;
+        return {
+          ...current,
+          boxes: current.boxes.map((b) =>
+            b.id === updatedBox.id
+              ? updatedBox
+              : group.includes(b.id) && !b.locked
+                ? {
+                    ...b,
+                    x: Math.max(0, b.x + dx),
+                    y: Math.max(0, b.y + dy),
+                    width: Math.max(MIN_BOX_WIDTH, b.width + dw),
+                    height: Math.max(MIN_BOX_HEIGHT, b.height + dh),
+                  }
+                : b
+          ),
+        };
+      },
+      rotated ? "Rotate box" : `${resized ? "Resize" : "Move"} ${group.length > 1 ? "boxes" : "box"}`,
+      `geometry:${updatedBox.id}`
+    );
+  };
+
+  const applyToSelection = (
+    arrange: (selected: BoxPosition[]) => BoxPosition[],
+    label: string
+  ) => {
+    const arranged = new Map(
+      arrange(selectedBoxes.filter((box) => !box.locked)).map((box) => [box.id, box])
+    );
+    commit(
+      (current) => ({
+        ...current,
+        boxes: current.boxes.map((b) => arranged.get(b.id) ?? b),
+      }),
+      label
+    );
+  };
+
+  const alignSelection = (mode: AlignMode) => {
+    // A lone box aligns to the template itself
+    const reference =
+      selectedBoxes.length === 1
+        ? { x: 0, y: 0, width: naturalSize.width, height: naturalSize.height }
+        : boundsOf(selectedBoxes);
+    applyToSelection((selected) => alignBoxes(selected, mode, reference), "Align boxes");
+  };
+
+  const distributeSelection = (axis: DistributeAxis) => {
+    applyToSelection((selected) => distributeBoxes(selected, axis), "Distribute boxes");
   };
 
   const deleteBox = (id: string) => {
-    setBoxes(boxes.filter((b) => b.id !== id));
-    setColumnMappings(columnMappings.filter((m) => m.boxId !== id));
+    commit(
+      (current) => ({
+        ...current,
+        boxes: current.boxes.filter((b) => b.id !== id),
+        columnMappings: current.columnMappings.filter((m) => m.boxId !== id),
+      }),
+      "Delete box"
+    );
+    if (selectedBoxIds.includes(id)) selectBoxes(selectedBoxIds.filter((s) => s !== id));
     toast.success("Text box deleted");
   };
 
+  const renameBox = (id: string, name: string) => {
+    updateBoxes((b) => ({ ...b, name }), id, "Rename box");
+  };
+
+  const toggleLocked = (id: string) => {
+    const box = boxes.find((b) => b.id === id);
+    updateBoxes((b) => ({ ...b, locked: !b.locked }), id, box?.locked ? "Unlock box" : "Lock box");
+  };
+
+  const toggleHidden = (id: string) => {
+    const box = boxes.find((b) => b.id === id);
+    updateBoxes((b) => ({ ...b, hidden: !b.hidden }), id, box?.hidden ? "Show box" : "Hide box");
+  };
+
+  const reorderBox = (id: string, index: number, label = "Reorder layers") => {
+    commit((current) => {
+      const box = current.boxes.find((b) => b.id === id);
+      if (!box) return current;
+      const rest = current.boxes.filter((b) => b.id !== id);
+      return { ...current, boxes: [...rest.slice(0, index), box, ...rest.slice(index)] };
+    }, label);
+  };
+
+  const copyStyle = (id: string) => {
+    const box = boxes.find((b) => b.id === id);
+    if (!box) return;
+    setCopiedStyle({ typography: box.typography, overflow: box.overflow });
+    toast.success(`Copied the style of ${box.name}`);
+  };
+
+  const pasteStyle = (id: string) => {
+    if (!copiedStyle) return;
+    updateBoxes((b) => ({ ...b, ...copiedStyle }), id, "Paste style");
+  };
+
+  const updateGeometry = (id: string, geometry: BoxGeometry) => {
+    const box = boxes.find((b) => b.id === id);
+    if (!box || box.locked) return;
+    const resized = box.width !== geometry.width || box.height !== geometry.height;
+    updateBoxes((b) => ({ ...b, ...geometry }), id, resized ? "Resize box" : "Move box");
+  };
+
+  const updateRotation = (id: string, rotation: number) => {
+    if (boxes.find((b) => b.id === id)?.locked) return;
+    updateBoxes((b) => ({ ...b, rotation }), id, "Rotate box");
+  };
+
+  const updateDpi = (dpi: number) => {
+    commit((current) => ({ ...current, dpi }), "Change DPI", "dpi");
+  };
+
+  const updateTypography = (id: string, typography: BoxTypography) => {
+    const box = boxes.find((b) => b.id === id);
+    // Repeated edits of the same fields (typing a size, dragging a color) merge into one step
+    const changed = box
+      ? (Object.keys(typography) as Array<keyof BoxTypography>).filter(
+          (key) => typography[key] !== box.typography[key]
+        )
+      : [];
+    updateBoxes((b) => ({ ...b, typography }), id, "Change style", `typography:${id}:${changed.join(",")}`);
+  };
+
+  const updateOverflow = (id: string, overflow: BoxOverflow) => {
+    updateBoxes((b) => ({ ...b, overflow }), id, "Change overflow", `overflow:${id}`);
+  };
+
+  const addFonts = (added: CustomFont[]) => {
+    commit((current) => ({ ...current, fonts: [...current.fonts, ...added] }), "Add fonts");
+  };
+
+  const removeFont = (font: CustomFont) => {
+    // Undo puts the font back in the layout, and the effect above registers it again
+    unregisterFont(font);
+    commit(
+      (current) => ({ ...current, fonts: current.fonts.filter((f) => f.id !== font.id) }),
+      "Remove font"
+    );
+  };
+
+  const updateContent = (id: string, content: BoxContent) => {
+    commit(
+      (current) => ({
+        ...current,
+        boxes: current.boxes.map((b) => (b.id === id ? { ...b, content } : b)),
+        columnMappings:
+          content.type === "column"
+            ? current.columnMappings
+            : current.columnMappings.filter((m) => m.boxId !== id),
+      }),
+      "Edit content",
+      `content:${id}:${content.type}`
+    );
+  };
+
+  const mapColumn = (columnId: string, boxId: string) => {
+    // Mappings are keyed by box: a box shows one column, a column may feed many boxes
+    commit(
+      (current) => ({
+        ...current,
+        columnMappings: [
+          ...current.columnMappings.filter((m) => m.boxId !== boxId),
+          { columnId, boxId },
+        ],
+      }),
+      "Map column"
+    );
+  };
+
+  const unmapBox = (id: string) => {
+    commit(
+      (current) => ({
+        ...current,
+        columnMappings: current.columnMappings.filter((m) => m.boxId !== id),
+      }),
+      "Unmap column"
+    );
+  };
+
+  const mappedColumnFor = (id: string) =>
+    columnMappings.find((m) => m.boxId === id)?.columnId ?? null;
+
+  const selectedBoxes = boxes.filter((b) => selectedBoxIds.includes(b.id));
+  // The inspectors edit one box at a time
+  const selectedBox = selectedBoxes.length === 1 ? selectedBoxes[0] : undefined;
+
+  const toTemplatePoint = (clientX: number, clientY: number) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    return rect ? { x: (clientX - rect.left) / scale, y: (clientY - rect.top) / scale } : { x: 0, y: 0 };
+  };
+
+  const handleOverlayMouseDown = (e: React.MouseEvent) => {
+    if (e.target !== e.currentTarget || e.button !== 0) return;
+    e.preventDefault();
+    const point = toTemplatePoint(e.clientX, e.clientY);
+    setMarquee({ startX: point.x, startY: point.y, endX: point.x, endY: point.y, additive: e.shiftKey });
+  };
+
+  const marqueeRect = marquee && {
+    x: Math.min(marquee.startX, marquee.endX),
+    y: Math.min(marquee.startY, marquee.endY),
+    width: Math.abs(marquee.endX - marquee.startX),
+    height: Math.abs(marquee.endY - marquee.startY),
+  };
+
+  useEffect(() => {
+    if (!marquee) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const rect = overlayRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setMarquee({
+        ...marquee,
+        endX: (e.clientX - rect.left) / scale,
+        endY: (e.clientY - rect.top) / scale,
+      });
+    };
+    const handleMouseUp = () => {
+      const area = {
+        x: Math.min(marquee.startX, marquee.endX),
+        y: Math.min(marquee.startY, marquee.endY),
+        width: Math.abs(marquee.endX - marquee.startX),
+        height: Math.abs(marquee.endY - marquee.startY),
+      };
+      // A plain click on the empty canvas hits nothing and clears the selection
+      const hits = boxes
+        .filter((box) => !box.hidden && !box.locked && intersects(rotatedBounds(box), area))
+        .map((box) => box.id);
+      seal();
+      setSelectedBoxIds(
+        marquee.additive ? [...selectedBoxIds, ...hits.filter((id) => !selectedBoxIds.includes(id))] : hits
+      );
+      setMarquee(null);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [marquee, boxes, selectedBoxIds, scale, seal]);
+
   const handleCanvasMouseMove = (e: React.MouseEvent) => {
     // Only handle mouse move if we're dragging a column
     if (!draggingColumn || !imageRef.current) return;
     
-    // Check if mouse is over any box
+    // Check if mouse is over any box, topmost first as later boxes paint over earlier ones
     const rect = imageRef.current.getBoundingClientRect();
     const x = (e.clientX - rect.left) / scale;
     const y = (e.clientY - rect.top) / scale;
 
-    const currentHoveredBox = boxes.find(
-      (box) =>
-        x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height
+    const currentHoveredBox = isOverElement(containerRef.current, e.clientX, e.clientY) && [...boxes].reverse().find(
+      (box) => !box.hidden && containsPoint(box, x, y)
     );
 
     if (currentHoveredBox) {
@@ -209,33 +884,25 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
   };
 
   const handleDragEnd = () => {
-    if (draggingColumn && hoveredBox) {
-      // Find if this column is already mapped to another box
-      const existingMapping = columnMappings.find((m) => m.columnId === draggingColumn);
-      
-      if (existingMapping) {
-        // Update existing mapping
-        setColumnMappings(
-          columnMappings.map((m) =>
-            m.columnId === draggingColumn ? { ...m, boxId: hoveredBox } : m
-          )
-        );
-      } else {
-        // Create new mapping
-        setColumnMappings([
-          ...columnMappings,
-          { columnId: draggingColumn, boxId: hoveredBox },
-        ]);
-      }
-
-      // Update the box to show which column it's mapped to
-      setBoxes(
-        boxes.map((b) =>
-          b.id === hoveredBox ? { ...b, columnId: draggingColumn } : b
-        )
-      );
+    const target = boxes.find((b) => b.id === hoveredBox);
 
-      toast.success(`Mapped "${draggingColumn}" to ${hoveredBox}`);
+    if (draggingColumn && target?.content.type === "template") {
+      // Dropping on a template box adds a placeholder instead of mapping
+      const { template } = target.content;
+      const separator = template && !template.endsWith(" ") ? " " : "";
+      seal();
+      updateContent(target.id, {
+        type: "template",
+        template: template + separator + placeholderFor(draggingColumn),
+      });
+      seal();
+      toast.success(`Added {${draggingColumn}} to ${target.name}`);
+    } else if (draggingColumn && target?.content.type === "static") {
+      // Static text prints the same on every certificate, a mapping would never show
+      toast.error(`${target.name} is static text and can't be mapped to "${draggingColumn}"`);
+    } else if (draggingColumn && target) {
+      mapColumn(draggingColumn, target.id);
+      toast.success(`Mapped "${draggingColumn}" to ${target.name}`);
     }
     
     setDraggingColumn(null);
@@ -252,41 +919,28 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
     }> = [];
 
     columnMappings.forEach((mapping) => {
-      if (mapping.boxId) {
-        const box = boxes.find(b => b.id === mapping.boxId);
-        if (box && imageRef.current) {
-          // Calculate start position (from dataset preview column header)
-          const datasetElement = document.querySelector(`[data-column="${mapping.columnId}"]`);
-          if (datasetElement) {
-            const datasetRect = datasetElement.getBoundingClientRect();
-            const imageRect = imageRef.current.getBoundingClientRect();
-            
-            // Start position: center-bottom of the column header arrow icon
-            const start = {
-              x: datasetRect.left + datasetRect.width / 2,
-              y: datasetRect.bottom
-            };
-
-            // End position: center of the box
-            const end = {
-              x: imageRect.left + (box.x + box.width / 2) * scale,
-              y: imageRect.top + (box.y + box.height / 2) * scale
-            };
-
-            // Debug logging with clearer format
-            console.log('🎯 Connection Debug:', {
-              mapping: `${mapping.columnId} → ${mapping.boxId}`,
-              start: `(${start.x.toFixed(0)}, ${start.y.toFixed(0)})`,
-              end: `(${end.x.toFixed(0)}, ${end.y.toFixed(0)})`,
-              distance: `${Math.sqrt((end.x - start.x) ** 2 + (end.y - start.y) ** 2).toFixed(0)}px`,
-              box: `${box.x}×${box.y} (${box.width}×${box.height})`,
-              scale: scale.toFixed(2),
-              imagePos: `${imageRect.left.toFixed(0)}, ${imageRect.top.toFixed(0)}`,
-              datasetPos: `${datasetRect.left.toFixed(0)}, ${datasetRect.bottom.toFixed(0)}`
-            });
-
-            connections.push({ start, end, columnId: mapping.columnId, boxId: mapping.boxId });
-          }
+      const box = boxes.find(b => b.id === mapping.boxId);
+      if (box && !box.hidden && imageRef.current) {
+        // Calculate start position (from dataset preview column header)
+        const datasetElement = document.querySelector(`[data-column="${mapping.columnId}"]`);
+        if (datasetElement) {
+          const datasetRect = datasetElement.getBoundingClientRect();
+          const imageRect = imageRef.current.getBoundingClientRect();
+          
+          // Start position: center-bottom of the column header arrow icon
+          const start = {
+            x: datasetRect.left + datasetRect.width / 2,
+            y: datasetRect.bottom
+          };
+
+          // End position: center of the box, kept on the viewport edge when scrolled away
+          const viewportRect = containerRef.current?.getBoundingClientRect() ?? imageRect;
+          const end = {
+            x: Math.min(Math.max(imageRect.left + (box.x + box.width / 2) * scale, viewportRect.left), viewportRect.right),
+            y: Math.min(Math.max(imageRect.top + (box.y + box.height / 2) * scale, viewportRect.top), viewportRect.bottom)
+          };
+
+          connections.push({ start, end, columnId: mapping.columnId, boxId: mapping.boxId });
         }
       }
     });
@@ -300,11 +954,9 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
       return;
     }
 
-    const unmappedBoxes = boxes.filter(
-      (box) => !columnMappings.find((m) => m.boxId === box.id)
-    );
+    const unmappedBoxes = boxes.filter((box) => !box.hidden && !hasBoxContent(box, columnMappings));
     if (unmappedBoxes.length > 0) {
-      toast.error("Please map all text boxes to columns");
+      toast.error("Please map or fill in all text boxes");
       return;
     }
 
@@ -313,42 +965,11 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
 
     try {
       const zip = new JSZip();
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = templateUrl;
-      });
+      const layout: CertificateLayout = { templateUrl, boxes, columnMappings, columns, fonts };
+      const canvas = document.createElement("canvas");
 
       for (let i = 0; i < rows.length; i++) {
-        const canvas = document.createElement("canvas");
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext("2d");
-        
-        if (!ctx) continue;
-
-        ctx.drawImage(img, 0, 0);
-
-        boxes.forEach((box) => {
-          const mapping = columnMappings.find((m) => m.boxId === box.id);
-          if (mapping) {
-            const colIndex = columns.indexOf(mapping.columnId);
-            const text = rows[i][colIndex] || "";
-
-            ctx.fillStyle = "#000000";
-            ctx.font = `${box.height * 0.6}px Arial`;
-            ctx.textAlign = "center";
-            ctx.textBaseline = "middle";
-            ctx.fillText(text, box.x + box.width / 2, box.y + box.height / 2);
-          }
-        });
-
-        const blob = await new Promise<Blob>((resolve) => {
-          canvas.toBlob((b) => resolve(b!), "image/png");
-        });
-        
+        const blob = await renderCertificateBlob(layout, rows[i], "image/png", canvas);
         zip.file(`certificate-${i + 1}.png`, blob);
       }
 
@@ -363,7 +984,7 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
       toast.success(`Generated ${rows.length} certificates!`);
     } catch (error) {
       console.error(error);
-      toast.error("Failed to generate certificates");
+      toast.error(`Failed to generate certificates: ${(error as Error).message}`);
     } finally {
       setIsGenerating(false);
     }
@@ -373,12 +994,43 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
     <div className="space-y-4">
       <div className="flex gap-2 flex-wrap">
         <Button
-          onClick={addBox}
+          onClick={() => addBox()}
           className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[3px_3px_0_#654321] hover:shadow-[4px_4px_0_#654321] transition-all font-bold font-body uppercase"
         >
           <Plus className="mr-2 h-4 w-4" />
           Add Text Box
         </Button>
+        <Button
+          onClick={() => addBox({ type: "static", text: "Static text" })}
+          className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[3px_3px_0_#654321] hover:shadow-[4px_4px_0_#654321] transition-all font-bold font-body uppercase"
+        >
+          <Type className="mr-2 h-4 w-4" />
+          Add Static Text
+        </Button>
+        <Button
+          onClick={undo}
+          disabled={!history.undoLabel}
+          title={history.undoLabel ? `Undo ${history.undoLabel.toLowerCase()} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+          className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] hover:shadow-[4px_4px_0_#654321] transition-all font-bold font-body uppercase disabled:opacity-50"
+        >
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button
+          onClick={redo}
+          disabled={!history.redoLabel}
+          title={history.redoLabel ? `Redo ${history.redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"}
+          className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] hover:shadow-[4px_4px_0_#654321] transition-all font-bold font-body uppercase disabled:opacity-50"
+        >
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <Button
+          onClick={() => setShowPreflight(true)}
+          disabled={!boxes.some((box) => hasBoxContent(box, columnMappings))}
+          className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] hover:shadow-[4px_4px_0_#654321] transition-all font-bold font-body uppercase disabled:opacity-50"
+        >
+          <ClipboardCheck className="mr-2 h-4 w-4" />
+          Check Data
+        </Button>
         <Button
           onClick={generateCertificates}
           disabled={isGenerating || boxes.length === 0}
@@ -399,50 +1051,189 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 relative">
-        <div className="lg:col-span-2">
+        <div className="lg:col-span-2 space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <ZoomControls
+                scale={scale}
+                isFit={zoom === "fit"}
+                canZoomIn={scale < MAX_ZOOM}
+                canZoomOut={scale > MIN_ZOOM}
+                onZoomIn={() => zoomTo(scale * ZOOM_STEP)}
+                onZoomOut={() => zoomTo(scale / ZOOM_STEP)}
+                onFit={() => zoomTo("fit")}
+                onActualSize={() => zoomTo(1)}
+              />
+              <SnapControls settings={snapSettings} onChange={setSnapSettings} />
+              <AlignmentControls
+                selectionCount={selectedBoxes.length}
+                onAlign={alignSelection}
+                onDistribute={distributeSelection}
+              />
+            </div>
+            <span className="text-xs text-[#654321] font-body italic hidden sm:inline">
+              Ctrl+scroll to zoom · Space+drag to pan · Alt to bypass snapping
+            </span>
+          </div>
           <div
             ref={containerRef}
-            className="relative border-4 border-[#8B4513] rounded-lg overflow-hidden bg-[#F5E6D3] shadow-[inset_0_0_20px_rgba(139,69,19,0.2)]"
+            className="relative border-4 border-[#8B4513] rounded-lg overflow-auto max-h-[75vh] bg-[#F5E6D3] shadow-[inset_0_0_20px_rgba(139,69,19,0.2)]"
+            onMouseDownCapture={handleViewportMouseDown}
             onMouseMove={draggingColumn ? handleCanvasMouseMove : undefined}
             onMouseUp={draggingColumn ? handleDragEnd : undefined}
-            style={{ cursor: draggingColumn ? "crosshair" : "default" }}
+            onScroll={(e) =>
+              setScrollPosition({ left: e.currentTarget.scrollLeft, top: e.currentTarget.scrollTop })
+            }
+            style={{
+              cursor: draggingColumn ? "crosshair" : isPanning ? "grabbing" : isSpaceHeld ? "grab" : "default",
+              scrollbarGutter: "stable",
+            }}
           >
-            <img
-              ref={imageRef}
-              src={templateUrl}
-              alt="Certificate Template"
-              className="w-full h-auto"
-              onLoad={() => {
-                if (imageRef.current) {
-                  const rect = imageRef.current.getBoundingClientRect();
-                  setImageSize({ width: rect.width, height: rect.height });
-                  setScale(rect.width / imageRef.current.naturalWidth);
+            <div
+              className="relative"
+              style={{ width: naturalSize.width ? naturalSize.width * scale : "100%" }}
+            >
+              <img
+                ref={imageRef}
+                src={templateUrl}
+                alt="Certificate Template"
+                className="block w-full max-w-none h-auto"
+                draggable={false}
+                onLoad={() => {
+                  if (imageRef.current) {
+                    setNaturalSize({
+                      width: imageRef.current.naturalWidth,
+                      height: imageRef.current.naturalHeight,
+                    });
+                  }
+                }}
+              />
+              <div
+                ref={overlayRef}
+                className="absolute inset-0"
+                onMouseDown={handleOverlayMouseDown}
+                style={
+                  snapSettings.enabled && snapSettings.gridSize > 0
+                    ? {
+                        backgroundImage:
+                          "linear-gradient(to right, rgba(139,69,19,0.15) 1px, transparent 1px), linear-gradient(to bottom, rgba(139,69,19,0.15) 1px, transparent 1px)",
+                        backgroundSize: `${snapSettings.gridSize * scale}px ${snapSettings.gridSize * scale}px`,
+                      }
+                    : undefined
                 }
-              }}
-            />
-            <div className="absolute inset-0">
-              {boxes.map((box) => (
-                <DraggableBox
-                  key={box.id}
-                  box={box}
-                  onUpdate={updateBox}
-                  onDelete={deleteBox}
-                  scale={scale}
-                  isDraggingColumn={!!draggingColumn}
-                  isHovered={hoveredBox === box.id}
-                />
-              ))}
+              >
+                {boxes.map((box, index) => box.hidden ? null : (
+                  <BoxContextMenu
+                    key={box.id}
+                    box={box}
+                    columns={columns}
+                    mappedColumn={mappedColumnFor(box.id)}
+                    canBringForward={index < boxes.length - 1}
+                    canSendBackward={index > 0}
+                    canPasteStyle={!!copiedStyle}
+                    onDuplicate={() => duplicateBoxes([box.id])}
+                    onDelete={() => deleteBox(box.id)}
+                    onBringForward={() => reorderBox(box.id, index + 1, "Bring forward")}
+                    onSendBackward={() => reorderBox(box.id, index - 1, "Send backward")}
+                    onToggleLocked={() => toggleLocked(box.id)}
+                    onMapColumn={(columnId) => mapColumn(columnId, box.id)}
+                    onClearMapping={() => unmapBox(box.id)}
+                    onCopyStyle={() => copyStyle(box.id)}
+                    onPasteStyle={() => pasteStyle(box.id)}
+                  >
+                    <DraggableBox
+                      box={box}
+                      onUpdate={updateBox}
+                      onUpdateEnd={endBoxGesture}
+                      onSnap={(geometry, handle, bypass) => snapBox(box.id, geometry, handle, bypass)}
+                      onDelete={deleteBox}
+                      scale={scale}
+                      isDraggingColumn={!!draggingColumn}
+                      isHovered={hoveredBox === box.id}
+                      isSelected={selectedBoxIds.includes(box.id)}
+                      mappedColumn={mappedColumnFor(box.id)}
+                      onSelect={selectBox}
+                    />
+                  </BoxContextMenu>
+                ))}
+                {marqueeRect && (
+                  <div
+                    className="absolute border-2 border-dashed border-[#2C1810] bg-[#8B4513]/10 pointer-events-none z-10"
+                    style={{
+                      left: marqueeRect.x * scale,
+                      top: marqueeRect.y * scale,
+                      width: marqueeRect.width * scale,
+                      height: marqueeRect.height * scale,
+                    }}
+                  />
+                )}
+                {guides.map((guide) => (
+                  <div
+                    key={`${guide.orientation}-${guide.position}`}
+                    className="absolute bg-red-500 pointer-events-none z-10"
+                    style={
+                      guide.orientation === "vertical"
+                        ? { left: guide.position * scale, top: 0, bottom: 0, width: 1 }
+                        : { top: guide.position * scale, left: 0, right: 0, height: 1 }
+                    }
+                  />
+                ))}
+              </div>
             </div>
           </div>
         </div>
 
         <div className="space-y-4">
+          <LayersPanel
+            boxes={boxes}
+            selectedBoxIds={selectedBoxIds}
+            onSelect={selectBox}
+            onRename={renameBox}
+            onToggleLocked={toggleLocked}
+            onToggleHidden={toggleHidden}
+            onReorder={reorderBox}
+          />
+
+          {selectedBox && (
+            <ContentInspector
+              box={selectedBox}
+              columns={columns}
+              mappedColumn={mappedColumnFor(selectedBox.id)}
+              onChange={(content) => updateContent(selectedBox.id, content)}
+              onUnmap={() => unmapBox(selectedBox.id)}
+            />
+          )}
+
+          {selectedBox && (
+            <GeometryInspector
+              box={selectedBox}
+              unit={unit}
+              dpi={layout.dpi}
+              onUnitChange={setUnit}
+              onDpiChange={updateDpi}
+              onChange={(geometry) => updateGeometry(selectedBox.id, geometry)}
+              onRotationChange={(rotation) => updateRotation(selectedBox.id, rotation)}
+            />
+          )}
+
+          {selectedBox && (
+            <TypographyInspector
+              box={selectedBox}
+              customFamilies={customFamilies(fonts)}
+              onChange={(typography) => updateTypography(selectedBox.id, typography)}
+              onOverflowChange={(overflow) => updateOverflow(selectedBox.id, overflow)}
+            />
+          )}
+
+          <FontManager fonts={fonts} onAddFonts={addFonts} onRemoveFont={removeFont} />
+
           <DatasetPreview
             columns={columns}
             rows={rows}
             onColumnDragStart={handleColumnDragStart}
             onColumnDragEnd={handleDragEnd}
             columnMappings={columnMappings}
+            boxName={boxName}
           />
           
           <CertificatePreview
@@ -450,11 +1241,25 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
             boxes={boxes}
             columnMappings={columnMappings}
             columns={columns}
-            firstRow={rows[0] || []}
+            fonts={fonts}
+            rows={rows}
+            rowIndex={previewRowIndex}
+            onRowIndexChange={setPreviewRowIndex}
           />
         </div>
       </div>
 
+      <PreflightReport
+        open={showPreflight}
+        onOpenChange={setShowPreflight}
+        layout={{ templateUrl, boxes, columnMappings, columns, fonts }}
+        rows={rows}
+        onJumpToRow={(rowIndex) => {
+          setPreviewRowIndex(rowIndex);
+          setShowPreflight(false);
+        }}
+      />
+
       {/* Render connection lines with clean arrows pointing to red dots */}
       {!isDragging && columnMappings.length > 0 && (
         <svg 
@@ -542,7 +1347,7 @@ export const WorkspaceCanvas = ({ templateUrl, columns, rows }: WorkspaceCanvasP
             )}
           </svg>
           <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-[#8B4513] text-[#F5E6D3] px-6 py-3 border-2 border-[#654321] shadow-[0_4px_0_#654321] font-bold z-50 font-body uppercase tracking-wide">
-            {hoveredBox ? `🎯 Ready to connect "${draggingColumn}" to ${hoveredBox}!` : `🎨 Drag "${draggingColumn}" to any text box`}
+            {hoveredBox ? `🎯 Ready to connect "${draggingColumn}" to ${boxName(hoveredBox)}!` : `🎨 Drag "${draggingColumn}" to any text box`}
           </div>
         </>
       )}
@@ -0,0 +1,67 @@
+import { Maximize, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ZoomControlsProps {
+  scale: number;
+  isFit: boolean;
+  canZoomIn: boolean;
+  canZoomOut: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFit: () => void;
+  onActualSize: () => void;
+}
+
+export const ZoomControls = ({
+  scale,
+  isFit,
+  canZoomIn,
+  canZoomOut,
+  onZoomIn,
+  onZoomOut,
+  onFit,
+  onActualSize,
+}: ZoomControlsProps) => (
+  <div className="flex items-center gap-1 border-2 border-[#8B4513] bg-[#F5E6D3] shadow-[3px_3px_0_#654321] px-1">
+    <Button
+      size="icon"
+      variant="ghost"
+      title="Zoom out"
+      onClick={onZoomOut}
+      disabled={!canZoomOut}
+      className="h-8 w-8 text-[#8B4513] hover:bg-[#8B4513]/10"
+    >
+      <ZoomOut className="h-4 w-4" />
+    </Button>
+    <span className="w-14 text-center text-sm font-bold text-[#2C1810] font-body tabular-nums">
+      {Math.round(scale * 100)}%
+    </span>
+    <Button
+      size="icon"
+      variant="ghost"
+      title="Zoom in"
+      onClick={onZoomIn}
+      disabled={!canZoomIn}
+      className="h-8 w-8 text-[#8B4513] hover:bg-[#8B4513]/10"
+    >
+      <ZoomIn className="h-4 w-4" />
+    </Button>
+    <Button
+      size="icon"
+      variant="ghost"
+      title="Fit to width"
+      onClick={onFit}
+      className={`h-8 w-8 text-[#8B4513] hover:bg-[#8B4513]/10 ${isFit ? "bg-[#8B4513]/20" : ""}`}
+    >
+      <Maximize className="h-4 w-4" />
+    </Button>
+    <Button
+      variant="ghost"
+      title="Actual size"
+      onClick={onActualSize}
+      className="h-8 px-2 text-xs font-bold text-[#8B4513] font-body hover:bg-[#8B4513]/10"
+    >
+      100%
+    </Button>
+  </div>
+);
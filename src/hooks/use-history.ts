@@ -0,0 +1,97 @@
+import { useCallback, useReducer } from "react";
+
+const MAX_HISTORY = 100;
+
+interface HistoryEntry<T> {
+  state: T;
+  /** Describes the edit that leads away from `state`, e.g. "Move box" */
+  label: string;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+  /** Key of the last commit; a commit with the same key replaces it instead of adding a step */
+  coalesceKey: string | null;
+}
+
+type HistoryAction<T> =
+  | { type: "commit"; update: (present: T) => T; label: string; coalesceKey?: string }
+  | { type: "seal" }
+  | { type: "undo" }
+  | { type: "redo" };
+
+const historyReducer = <T>(history: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case "commit": {
+      const state = action.update(history.present);
+      if (state === history.present) return history;
+      if (action.coalesceKey && action.coalesceKey === history.coalesceKey && history.past.length > 0) {
+        return { ...history, present: state, future: [] };
+      }
+      return {
+        past: [...history.past, { state: history.present, label: action.label }].slice(-MAX_HISTORY),
+        present: state,
+        future: [],
+        coalesceKey: action.coalesceKey ?? null,
+      };
+    }
+    case "seal":
+      return history.coalesceKey === null ? history : { ...history, coalesceKey: null };
+    case "undo": {
+      const entry = history.past[history.past.length - 1];
+      if (!entry) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: entry.state,
+        future: [{ state: history.present, label: entry.label }, ...history.future],
+        coalesceKey: null,
+      };
+    }
+    case "redo": {
+      const [entry, ...future] = history.future;
+      if (!entry) return history;
+      return {
+        past: [...history.past, { state: history.present, label: entry.label }],
+        present: entry.state,
+        future,
+        coalesceKey: null,
+      };
+    }
+  }
+};
+
+/**
+ * Undo/redo over immutable snapshots. Each `commit` derives the next snapshot
+ * from the current one and is one step unless it passes the same `coalesceKey`
+ * as the previous commit, which lets a drag or a run of keystrokes collapse
+ * into a single step until `seal` is called.
+ */
+export const useHistory = <T>(initial: T) => {
+  const [history, dispatch] = useReducer(historyReducer<T>, {
+    past: [],
+    present: initial,
+    future: [],
+    coalesceKey: null,
+  });
+
+  const commit = useCallback(
+    (update: (present: T) => T, label: string, coalesceKey?: string) =>
+      dispatch({ type: "commit", update, label, coalesceKey }),
+    []
+  );
+  const seal = useCallback(() => dispatch({ type: "seal" }), []);
+  const undo = useCallback(() => dispatch({ type: "undo" }), []);
+  const redo = useCallback(() => dispatch({ type: "redo" }), []);
+
+  return {
+    present: history.present,
+    commit,
+    seal,
+    undo,
+    redo,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null,
+  };
+};
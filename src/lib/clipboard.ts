@@ -0,0 +1,111 @@
+import { z } from "zod";
+import type { BoxPosition } from "@/components/DraggableBox";
+import type { ColumnMapping } from "@/components/DatasetPreview";
+import type { CustomFont } from "./fonts";
+import { EMPTY_LAYOUT, boxSchema, normalizeLayout } from "./project";
+import { createId } from "./utils";
+
+/** Marks clipboard text as boxes copied from Certificattaca rather than arbitrary JSON */
+const CLIPBOARD_FORMAT = "certificattaca/boxes";
+
+/** How far each paste or duplicate is shifted from its source, in template pixels */
+export const PASTE_OFFSET = 20;
+
+export interface BoxClipboard {
+  boxes: BoxPosition[];
+  columnMappings: ColumnMapping[];
+  /** Custom fonts the boxes use, so they still render after pasting into another project */
+  fonts: CustomFont[];
+}
+
+// Boxes copied from an older build may lack fields that normalizeLayout fills in
+const copiedBoxSchema = boxSchema.partial({ name: true, locked: true, hidden: true, rotation: true });
+
+const clipboardSchema = z.object({
+  format: z.literal(CLIPBOARD_FORMAT),
+  boxes: z.array(copiedBoxSchema),
+  columnMappings: z.array(z.object({ columnId: z.string(), boxId: z.string() })),
+  fonts: z
+    .array(
+      z.object({
+        id: z.string(),
+        family: z.string(),
+        weight: z.number(),
+        style: z.enum(["normal", "italic"]),
+        fileName: z.string(),
+        data: z.string(),
+      })
+    )
+    .default([]),
+});
+
+const toBase64 = (data: ArrayBuffer) => {
+  const bytes = new Uint8Array(data);
+  let binary = "";
+  // Chunked so large fonts don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0)).buffer;
+
+/** JSON for the system clipboard, so boxes can be pasted into another project or tab */
+export const serializeBoxes = (boxes: BoxPosition[], columnMappings: ColumnMapping[], fonts: CustomFont[]) =>
+  JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    boxes,
+    columnMappings: columnMappings.filter((m) => boxes.some((box) => box.id === m.boxId)),
+    fonts: fonts
+      .filter((font) => boxes.some((box) => box.typography.fontFamily === font.family))
+      .map((font) => ({ ...font, data: toBase64(font.data) })),
+  });
+
+/** Reads boxes back from clipboard text, or null if it isn't a box payload */
+export const parseBoxes = (text: string): BoxClipboard | null => {
+  let payload: z.infer<typeof clipboardSchema>;
+  let fonts: CustomFont[];
+  try {
+    payload = clipboardSchema.parse(JSON.parse(text));
+    fonts = payload.fonts.map((font) => ({ ...font, data: fromBase64(font.data) }) as CustomFont);
+  } catch {
+    return null;
+  }
+
+  const { boxes } = normalizeLayout({ ...EMPTY_LAYOUT, boxes: payload.boxes as BoxPosition[] });
+  return { boxes, columnMappings: payload.columnMappings as ColumnMapping[], fonts };
+};
+
+/**
+ * Copies of `boxes` with fresh ids, shifted by `offset`, along with their
+ * mappings and the fonts missing from `existingFonts`. Mappings to columns
+ * missing from `columns` are dropped, which happens when pasting into a
+ * project with a different dataset.
+ */
+export const cloneBoxes = (
+  { boxes, columnMappings, fonts }: BoxClipboard,
+  columns: string[],
+  existingFonts: CustomFont[],
+  offset: number
+): BoxClipboard => {
+  const ids = new Map(boxes.map((box) => [box.id, `box-${createId()}`]));
+  return {
+    boxes: boxes.map((box) => ({
+      ...box,
+      id: ids.get(box.id),
+      name: `${box.name} copy`,
+      x: box.x + offset,
+      y: box.y + offset,
+    })),
+    columnMappings: columnMappings
+      .filter((m) => ids.has(m.boxId) && columns.includes(m.columnId))
+      .map((m) => ({ ...m, boxId: ids.get(m.boxId) })),
+    fonts: fonts.filter(
+      (font) =>
+        !existingFonts.some(
+          (f) => f.family === font.family && f.weight === font.weight && f.style === font.style
+        )
+    ),
+  };
+};
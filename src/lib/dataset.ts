@@ -0,0 +1,314 @@
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+
+/**
+ * One value of a dataset. Text files only produce strings; spreadsheet numbers
+ * and dates keep their value (dates as ISO strings, with a time when the cell
+ * has one) next to the text the sheet displays them as, which is what prints.
+ */
+export type DatasetCell =
+  | string
+  | { type: "number"; value: number; text: string }
+  | { type: "date"; value: string; text: string };
+
+export type DatasetRow = DatasetCell[];
+
+/** A dataset ready for the editor: one header row and the data rows below it */
+export interface DatasetTable {
+  columns: string[];
+  rows: DatasetRow[];
+}
+
+/** A worksheet as offered in the sheet picker */
+export interface SheetSummary {
+  name: string;
+  /** Non-blank rows; whether the first is a header is only decided on import */
+  rowCount: number;
+  columnCount: number;
+  /** The first few rows, header included */
+  preview: DatasetRow[];
+}
+
+/** How raw rows become a table, chosen in the import dialog */
+export interface ImportOptions {
+  /** First row used, 0-based; everything above it is skipped */
+  startRow: number;
+  /** Whether the start row holds the column names, otherwise they're generated */
+  hasHeader: boolean;
+  /** Rows dropped from the end (totals, footnotes), not counting trailing blank rows */
+  skipTrailing: number;
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = { startRow: 0, hasHeader: true, skipTrailing: 0 };
+
+export const SHEET_PREVIEW_ROWS = 5;
+
+/** The text a cell prints as */
+export const cellText = (cell: DatasetCell | undefined): string =>
+  cell === undefined || cell === null ? "" : typeof cell === "string" ? cell : cell.text;
+
+const isBlankRow = (row: DatasetRow) => !row.some((cell) => cellText(cell).trim());
+
+/** Spreadsheet-style column letter: 0 is A, 25 is Z, 26 is AA */
+export const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+export const generatedColumnName = (index: number) => `Column ${columnLetter(index)}`;
+
+/** The raw rows `options` keeps, header included, as [first, end) indexes into `data` */
+export const importedRange = (data: DatasetRow[], options: ImportOptions): [number, number] => {
+  let end = data.length;
+  while (end > 0 && isBlankRow(data[end - 1])) end--;
+  const start = Math.min(options.startRow, end);
+  return [start, Math.max(start, end - options.skipTrailing)];
+};
+
+/** Applies the import options and drops blank data rows */
+export const toDatasetTable = (data: DatasetRow[], options = DEFAULT_IMPORT_OPTIONS): DatasetTable => {
+  const [start, end] = importedRange(data, options);
+  const kept = data.slice(start, end);
+  const header = options.hasHeader ? kept[0] ?? [] : [];
+  const rows = (options.hasHeader ? kept.slice(1) : kept).filter((row) => !isBlankRow(row));
+  const width = rows.reduce((max, row) => Math.max(max, row.length), header.length);
+  // Blank header cells get a generated name so every column can be mapped
+  const columns = Array.from({ length: width }, (_, i) => cellText(header[i]).trim() || generatedColumnName(i));
+  return { columns, rows };
+};
+
+export const DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+] as const;
+
+export type Delimiter = (typeof DELIMITERS)[number]["value"];
+
+export const TEXT_ENCODINGS = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "windows-1252", label: "Windows-1252 (Western European)" },
+  { value: "iso-8859-15", label: "ISO-8859-15 (Latin-9)" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+] as const;
+
+export type TextEncoding = (typeof TEXT_ENCODINGS)[number]["value"];
+
+/** How a CSV/TSV file's bytes are read, sniffed on upload and adjustable in the import dialog */
+export interface TextFormat {
+  encoding: TextEncoding;
+  delimiter: Delimiter;
+}
+
+// Lines looked at when guessing the delimiter
+const SNIFF_LINES = 20;
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) => prefix.every((byte, i) => bytes[i] === byte);
+
+/** Goes by the byte order mark, then by whether the bytes are valid UTF-8, else assumes Windows-1252 */
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (startsWith(bytes, [0xef, 0xbb, 0xbf])) return "utf-8";
+  if (startsWith(bytes, [0xff, 0xfe])) return "utf-16le";
+  if (startsWith(bytes, [0xfe, 0xff])) return "utf-16be";
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    // Excel on Windows saves "CSV" in the system code page, Windows-1252 across Western Europe
+    return "windows-1252";
+  }
+};
+
+/** Decodes with `encoding`, dropping any byte order mark */
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding) =>
+  new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, "");
+
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+/**
+ * Picks the delimiter that splits the most lines into as many fields as the
+ * first line, preferring more fields on a tie. Falls back to a comma.
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim())
+    .slice(0, SNIFF_LINES);
+
+  let best: { delimiter: Delimiter; consistent: number; fields: number } | null = null;
+  for (const { value } of DELIMITERS) {
+    const counts = lines.map((line) => countOutsideQuotes(line, value));
+    if (!counts[0]) continue;
+    const consistent = counts.filter((count) => count === counts[0]).length;
+    if (!best || consistent > best.consistent || (consistent === best.consistent && counts[0] > best.fields)) {
+      best = { delimiter: value, consistent, fields: counts[0] };
+    }
+  }
+  return best?.delimiter ?? ",";
+};
+
+export const sniffTextFormat = (bytes: Uint8Array): TextFormat => {
+  const encoding = detectEncoding(bytes);
+  return { encoding, delimiter: detectDelimiter(decodeText(bytes, encoding)) };
+};
+
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const results = Papa.parse<string[]>(text, { delimiter });
+  if (results.errors.length > 0 && results.data.length === 0) {
+    throw new Error(results.errors[0].message);
+  }
+  return results.data;
+};
+
+export const parseTextDataset = (bytes: Uint8Array, format: TextFormat) =>
+  parseDelimited(decodeText(bytes, format.encoding), format.delimiter);
+
+export class DatasetFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetFileError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Flattens nested objects into dotted keys, e.g. `{ student: { name } }` becomes `student.name` */
+const flattenRecord = (record: Record<string, unknown>, prefix = "", flat = new Map<string, DatasetCell>()) => {
+  Object.entries(record).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(value)) {
+      flattenRecord(value, path, flat);
+    } else if (Array.isArray(value)) {
+      // Lists of plain values read best joined; lists of objects get an index per entry
+      if (value.some(isRecord)) {
+        flattenRecord({ ...value }, path, flat);
+      } else {
+        flat.set(path, value.map((item) => String(item ?? "")).join(", "));
+      }
+    } else if (typeof value === "number") {
+      flat.set(path, { type: "number", value, text: String(value) });
+    } else {
+      flat.set(path, value === null || value === undefined ? "" : String(value));
+    }
+  });
+  return flat;
+};
+
+/** Rows of records with the union of their keys, in first-seen order, as the header row */
+const recordsToRows = (records: unknown[]): DatasetRow[] => {
+  const flattened = records.map((record, i) => {
+    if (!isRecord(record)) throw new DatasetFileError(`Record ${i + 1} is not an object`);
+    return flattenRecord(record);
+  });
+  const columns = [...new Set(flattened.flatMap((flat) => [...flat.keys()]))];
+  return [columns, ...flattened.map((flat) => columns.map((column) => flat.get(column) ?? ""))];
+};
+
+const decodeJsonText = (bytes: Uint8Array) => decodeText(bytes, detectEncoding(bytes));
+
+/** A JSON array of objects */
+export const parseJsonDataset = (bytes: Uint8Array): DatasetRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeJsonText(bytes));
+  } catch {
+    throw new DatasetFileError("The file is not valid JSON");
+  }
+  if (!Array.isArray(parsed)) throw new DatasetFileError("Expected a JSON array of objects");
+  return recordsToRows(parsed);
+};
+
+/** Newline-delimited JSON, one object per line */
+export const parseNdjsonDataset = (bytes: Uint8Array): DatasetRow[] => {
+  const records = decodeJsonText(bytes)
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, number }) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch {
+        throw new DatasetFileError(`Line ${number} is not valid JSON`);
+      }
+    });
+  return recordsToRows(records);
+};
+
+// cellNF keeps each cell's number format, which is how date cells are told apart from numbers
+export const readWorkbook = async (file: Blob) =>
+  XLSX.read(await file.arrayBuffer(), { type: "array", cellNF: true });
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const isoDate = (date: { y: number; m: number; d: number; H: number; M: number; S: number }) => {
+  const day = `${String(date.y).padStart(4, "0")}-${pad(date.m)}-${pad(date.d)}`;
+  return date.H || date.M || date.S ? `${day}T${pad(date.H)}:${pad(date.M)}:${pad(date.S)}` : day;
+};
+
+const toCell = (cell: XLSX.CellObject | undefined, date1904: boolean): DatasetCell => {
+  if (!cell || cell.v === undefined || cell.v === null) return "";
+  // `w` is the value as the sheet displays it, number format applied
+  const text = cell.w ?? String(cell.v);
+
+  if (cell.t === "d" && cell.v instanceof Date) {
+    const d = cell.v;
+    const value = isoDate({
+      y: d.getFullYear(),
+      m: d.getMonth() + 1,
+      d: d.getDate(),
+      H: d.getHours(),
+      M: d.getMinutes(),
+      S: d.getSeconds(),
+    });
+    return { type: "date", value, text };
+  }
+  if (cell.t === "n" && typeof cell.v === "number") {
+    // Excel stores dates as day serials, only the number format marks them as dates
+    if (cell.z !== undefined && XLSX.SSF.is_date(cell.z)) {
+      const parsed = XLSX.SSF.parse_date_code(cell.v, { date1904 });
+      if (parsed) return { type: "date", value: isoDate(parsed), text };
+    }
+    return { type: "number", value: cell.v, text };
+  }
+  return text;
+};
+
+/** A sheet's cells row by row, with typed numbers and dates */
+export const sheetData = (workbook: XLSX.WorkBook, sheetName: string): DatasetRow[] => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet?.["!ref"]) return [];
+  const date1904 = !!workbook.Workbook?.WBProps?.date1904;
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+
+  const rows: DatasetRow[] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: DatasetRow = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(toCell(sheet[XLSX.utils.encode_cell({ r, c })], date1904));
+    }
+    // Drop the empty cells the sheet's range pads short rows with
+    while (row.length > 0 && row[row.length - 1] === "") row.pop();
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const summarizeSheets = (workbook: XLSX.WorkBook): SheetSummary[] =>
+  workbook.SheetNames.map((name) => {
+    const data = sheetData(workbook, name).filter((row) => !isBlankRow(row));
+    return {
+      name,
+      rowCount: data.length,
+      columnCount: data.reduce((max, row) => Math.max(max, row.length), 0),
+      preview: data.slice(0, SHEET_PREVIEW_ROWS),
+    };
+  });
@@ -0,0 +1,56 @@
+const DB_NAME = "certificattaca";
+const DB_VERSION = 2;
+
+export const SESSION_STORE = "session";
+/** Lightweight project records for listing, keyed by project id */
+export const PROJECTS_STORE = "projects";
+/** Full project contents (template, dataset, layout), keyed by project id */
+export const PROJECT_DATA_STORE = "projectData";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [SESSION_STORE, PROJECTS_STORE, PROJECT_DATA_STORE].forEach((store) => {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const dbGet = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify<T>(db.transaction(store).objectStore(store).get(key));
+};
+
+export const dbGetAll = async <T>(store: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify<T[]>(db.transaction(store).objectStore(store).getAll());
+};
+
+export const dbPut = async (store: string, key: IDBValidKey, value: unknown) => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, "readwrite").objectStore(store).put(value, key));
+};
+
+export const dbDelete = async (store: string, key: IDBValidKey) => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, "readwrite").objectStore(store).delete(key));
+};
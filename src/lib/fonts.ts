@@ -0,0 +1,113 @@
+import { BoxTypography, SYSTEM_FONT_FAMILIES, buildFont } from "./typography";
+import { createId } from "./utils";
+
+export interface CustomFont {
+  id: string;
+  family: string;
+  weight: number;
+  style: "normal" | "italic";
+  fileName: string;
+  data: ArrayBuffer;
+}
+
+export const FONT_FILE_FORMATS = ".ttf,.otf,.woff,.woff2";
+
+const WEIGHT_NAMES: Array<[RegExp, number]> = [
+  [/thin|hairline/i, 100],
+  [/extra-?light|ultra-?light/i, 200],
+  [/light/i, 300],
+  [/medium/i, 500],
+  [/semi-?bold|demi-?bold/i, 600],
+  [/extra-?bold|ultra-?bold/i, 800],
+  [/black|heavy/i, 900],
+  [/bold/i, 700],
+];
+
+const isVariantWord = (word: string) =>
+  /italic|oblique|regular/i.test(word) || WEIGHT_NAMES.some(([pattern]) => pattern.test(word));
+
+/**
+ * Derives family, weight and style from names like "Montserrat-SemiBoldItalic.woff2"
+ * so several files of one family register as a single family with real variants.
+ */
+export const parseFontFileName = (fileName: string) => {
+  const base = fileName.replace(/\.[^.]+$/, "");
+  // Variant words are peeled off the end at "-" only; underscores are spaces ("Open_Sans-Bold")
+  const parts = base.split("-");
+  const variantParts: string[] = [];
+  while (parts.length > 1 && isVariantWord(parts[parts.length - 1])) variantParts.unshift(parts.pop()!);
+  const variant = variantParts.join("");
+  const weight = WEIGHT_NAMES.find(([pattern]) => pattern.test(variant))?.[1] ?? 400;
+  const style: CustomFont["style"] = /italic|oblique/i.test(variant) ? "italic" : "normal";
+  const family = variant ? parts.join("-") : base;
+  return {
+    family: family.replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2").trim(),
+    weight,
+    style,
+  };
+};
+
+// One FontFace per uploaded file, shared by every render
+const registeredFaces = new Map<string, Promise<FontFace>>();
+
+export const registerFont = (font: CustomFont): Promise<FontFace> => {
+  let face = registeredFaces.get(font.id);
+  if (!face) {
+    // FontFace may take ownership of the buffer, keep ours intact for saving
+    const fontFace = new FontFace(font.family, font.data.slice(0), {
+      weight: String(font.weight),
+      style: font.style,
+    });
+    face = fontFace.load().then((loaded) => {
+      document.fonts.add(loaded);
+      return loaded;
+    });
+    face.catch(() => registeredFaces.delete(font.id));
+    registeredFaces.set(font.id, face);
+  }
+  return face;
+};
+
+export const unregisterFont = (font: CustomFont) => {
+  const face = registeredFaces.get(font.id);
+  if (!face) return;
+  registeredFaces.delete(font.id);
+  face.then((loaded) => document.fonts.delete(loaded)).catch(() => undefined);
+};
+
+/** Reads and validates an uploaded font file, registering it on success */
+export const readFontFile = async (file: File): Promise<CustomFont> => {
+  const font: CustomFont = {
+    id: `font-${createId()}`,
+    ...parseFontFileName(file.name),
+    fileName: file.name,
+    data: await file.arrayBuffer(),
+  };
+  await registerFont(font);
+  return font;
+};
+
+export const customFamilies = (fonts: CustomFont[]) => [...new Set(fonts.map((f) => f.family))];
+
+/**
+ * Resolves once every custom font and every face referenced by `typographies`
+ * is ready to draw. Rejects instead of letting the canvas silently fall back to
+ * a default face when a referenced family isn't available.
+ */
+export const ensureFontsReady = async (fonts: CustomFont[], typographies: BoxTypography[]) => {
+  await Promise.all(fonts.map(registerFont));
+
+  const missing = new Set<string>();
+  await Promise.all(
+    typographies.map(async (typography) => {
+      const faces = await document.fonts.load(buildFont(typography, 16));
+      if (faces.length === 0 && !SYSTEM_FONT_FAMILIES.includes(typography.fontFamily)) {
+        missing.add(typography.fontFamily);
+      }
+    })
+  );
+
+  if (missing.size > 0) {
+    throw new Error(`Font not available: ${[...missing].join(", ")}`);
+  }
+};
@@ -0,0 +1,93 @@
+/** Position and size of a box, in template pixels */
+export interface BoxGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_BOX_WIDTH = 50;
+export const MIN_BOX_HEIGHT = 30;
+
+export type AlignMode = "left" | "center" | "right" | "top" | "middle" | "bottom";
+export type DistributeAxis = "horizontal" | "vertical";
+
+export const boundsOf = (boxes: BoxGeometry[]): BoxGeometry => {
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const intersects = (a: BoxGeometry, b: BoxGeometry) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+/** Wraps degrees into -180..180 */
+export const normalizeAngle = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+
+/** Whether a template point lies inside `box`, taking its rotation (clockwise degrees) into account */
+export const containsPoint = (box: BoxGeometry & { rotation?: number }, x: number, y: number) => {
+  const angle = ((box.rotation ?? 0) * Math.PI) / 180;
+  const dx = x - (box.x + box.width / 2);
+  const dy = y - (box.y + box.height / 2);
+  // Undo the rotation so the point can be compared against the unrotated box
+  const localX = dx * Math.cos(angle) + dy * Math.sin(angle);
+  const localY = -dx * Math.sin(angle) + dy * Math.cos(angle);
+  return Math.abs(localX) <= box.width / 2 && Math.abs(localY) <= box.height / 2;
+};
+
+/** Axis-aligned bounds of a box after rotation */
+export const rotatedBounds = (box: BoxGeometry & { rotation?: number }): BoxGeometry => {
+  const angle = ((box.rotation ?? 0) * Math.PI) / 180;
+  const width = Math.abs(box.width * Math.cos(angle)) + Math.abs(box.height * Math.sin(angle));
+  const height = Math.abs(box.width * Math.sin(angle)) + Math.abs(box.height * Math.cos(angle));
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/** Lines every box up with the same side or center line of `reference` */
+export const alignBoxes = <T extends BoxGeometry>(boxes: T[], mode: AlignMode, reference: BoxGeometry): T[] =>
+  boxes.map((box) => {
+    switch (mode) {
+      case "left":
+        return { ...box, x: reference.x };
+      case "center":
+        return { ...box, x: reference.x + (reference.width - box.width) / 2 };
+      case "right":
+        return { ...box, x: reference.x + reference.width - box.width };
+      case "top":
+        return { ...box, y: reference.y };
+      case "middle":
+        return { ...box, y: reference.y + (reference.height - box.height) / 2 };
+      case "bottom":
+        return { ...box, y: reference.y + reference.height - box.height };
+    }
+  });
+
+/**
+ * Keeps the outermost boxes in place and spaces the rest so the gaps between
+ * neighbours are equal. Returns the boxes in their original order.
+ */
+export const distributeBoxes = <T extends BoxGeometry>(boxes: T[], axis: DistributeAxis): T[] => {
+  if (boxes.length < 3) return boxes;
+  const [position, size] = axis === "horizontal" ? (["x", "width"] as const) : (["y", "height"] as const);
+
+  const sorted = [...boxes].sort((a, b) => a[position] - b[position]);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const span = last[position] + last[size] - first[position];
+  const gap = (span - sorted.reduce((total, box) => total + box[size], 0)) / (sorted.length - 1);
+
+  const placed = new Map<T, number>();
+  let next = first[position];
+  for (const box of sorted) {
+    placed.set(box, next);
+    next += box[size] + gap;
+  }
+  return boxes.map((box) => ({ ...box, [position]: placed.get(box) }));
+};
@@ -0,0 +1,85 @@
+import type { BoxPosition } from "@/components/DraggableBox";
+import { CertificateLayout, resolveBoxText } from "./renderer";
+import { ensureFontsReady } from "./fonts";
+import { getMeasureContext, layoutText } from "./textLayout";
+import { resolveFontSize } from "./typography";
+import type { DatasetRow } from "./dataset";
+
+export type PreflightIssueKind = "empty" | "overflow" | "truncated" | "too-small";
+
+export interface PreflightIssue {
+  /** null for static boxes, which print the same on every row */
+  rowIndex: number | null;
+  boxId: string;
+  kind: PreflightIssueKind;
+  text: string;
+  fontSize: number | null;
+}
+
+export const DEFAULT_READABLE_FONT_SIZE = 14;
+
+export const ISSUE_LABELS: Record<PreflightIssueKind, string> = {
+  empty: "Empty value",
+  overflow: "Overflows box",
+  truncated: "Truncated",
+  "too-small": "Shrunk too small",
+};
+
+// Rows measured between yields to the event loop, keeps large runs from freezing the tab
+const ROWS_PER_CHUNK = 200;
+
+/**
+ * Lays out every mapped value of every row exactly as the renderer would and
+ * collects the ones that won't come out right.
+ */
+export const runPreflight = async (
+  layout: CertificateLayout,
+  rows: DatasetRow[],
+  readableFontSize = DEFAULT_READABLE_FONT_SIZE,
+  onProgress?: (done: number) => void
+): Promise<PreflightIssue[]> => {
+  await ensureFontsReady(layout.fonts, layout.boxes.map((box) => box.typography));
+
+  const ctx = getMeasureContext();
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const issues: PreflightIssue[] = [];
+
+  const checkBox = (box: BoxPosition, row: DatasetRow, rowIndex: number | null) => {
+    const text = resolveBoxText(layout, box, row);
+    if (text === null) return;
+
+    if (!text.trim()) {
+      issues.push({ rowIndex, boxId: box.id, kind: "empty", text, fontSize: null });
+      return;
+    }
+
+    const result = layoutText(ctx, box, text);
+    const issue = (kind: PreflightIssueKind) =>
+      issues.push({ rowIndex, boxId: box.id, kind, text, fontSize: result.fontSize });
+
+    if (result.overflows) issue("overflow");
+    else if (result.truncated) issue("truncated");
+    // Only text shrunk to fit counts; a box deliberately set in small print isn't an issue
+    else if (result.fontSize < readableFontSize && result.fontSize < resolveFontSize(box.typography, box.height)) {
+      issue("too-small");
+    }
+  };
+
+  // Static text doesn't vary, report it once rather than for every row
+  const staticBoxes = layout.boxes.filter((box) => box.content.type === "static");
+  const rowBoxes = layout.boxes.filter((box) => box.content.type !== "static");
+  staticBoxes.forEach((box) => checkBox(box, [], null));
+
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    rowBoxes.forEach((box) => checkBox(box, rows[rowIndex], rowIndex));
+
+    if ((rowIndex + 1) % ROWS_PER_CHUNK === 0) {
+      onProgress?.(rowIndex + 1);
+      await new Promise((resolve) => setTimeout(resolve));
+    }
+  }
+
+  onProgress?.(rows.length);
+  return issues;
+};
@@ -0,0 +1,306 @@
+import JSZip from "jszip";
+import { z } from "zod";
+import type { BoxPosition } from "@/components/DraggableBox";
+import type { ColumnMapping } from "@/components/DatasetPreview";
+import type { CustomFont } from "./fonts";
+import { DEFAULT_DPI } from "./units";
+import type { DatasetRow } from "./dataset";
+
+/** The editable part of a project, owned by `WorkspaceCanvas` */
+export interface ProjectLayout {
+  boxes: BoxPosition[];
+  columnMappings: ColumnMapping[];
+  fonts: CustomFont[];
+  /** Print resolution of the template, used to show lengths in mm or inches */
+  dpi: number;
+}
+
+export interface ProjectDataset {
+  fileName: string;
+  /** Worksheet the data was read from, for workbooks with several sheets */
+  sheetName?: string;
+  columns: string[];
+  rows: DatasetRow[];
+}
+
+export interface Project {
+  name: string;
+  template: { fileName: string; blob: Blob };
+  dataset: ProjectDataset;
+  layout: ProjectLayout;
+}
+
+export const EMPTY_LAYOUT: ProjectLayout = { boxes: [], columnMappings: [], fonts: [], dpi: DEFAULT_DPI };
+
+/**
+ * Fills in layout fields added since a project was stored. Project files are
+ * upgraded by their migrations, but sessions and library projects in IndexedDB
+ * are stored as they were saved.
+ */
+export const normalizeLayout = (layout: ProjectLayout): ProjectLayout => ({
+  ...EMPTY_LAYOUT,
+  ...layout,
+  boxes: layout.boxes.map((box) => ({
+    ...box,
+    name: box.name ?? box.id,
+    locked: box.locked ?? false,
+    hidden: box.hidden ?? false,
+    rotation: box.rotation ?? 0,
+  })),
+});
+
+export const PROJECT_FILE_EXTENSION = ".certificattaca";
+
+/**
+ * Version of the `project.json` layout. Bump it whenever the shape changes and
+ * add a migration from the previous version so older project files keep loading.
+ */
+export const PROJECT_VERSION = 5;
+
+type Manifest = Record<string, unknown> & { version: number };
+
+// migrations[n] upgrades a version n manifest to version n + 1
+const migrations: Record<number, (manifest: Manifest) => Manifest> = {
+  1: (manifest) => ({
+    ...manifest,
+    version: 2,
+    layout: { ...(manifest.layout as Record<string, unknown>), dpi: DEFAULT_DPI },
+  }),
+  2: (manifest) => {
+    const layout = manifest.layout as { boxes: Record<string, unknown>[] };
+    return {
+      ...manifest,
+      version: 3,
+      layout: { ...layout, boxes: layout.boxes.map((box) => ({ ...box, rotation: 0 })) },
+    };
+  },
+  3: (manifest) => {
+    const layout = manifest.layout as { boxes: Record<string, unknown>[] };
+    return {
+      ...manifest,
+      version: 4,
+      layout: {
+        ...layout,
+        boxes: layout.boxes.map((box) => ({ ...box, name: box.id, locked: false, hidden: false })),
+      },
+    };
+  },
+  // Dataset cells may now be typed numbers and dates; the old string cells are still valid
+  4: (manifest) => ({ ...manifest, version: 5 }),
+};
+
+const typographySchema = z.object({
+  fontFamily: z.string(),
+  fontSize: z.union([z.number().positive(), z.literal("auto")]),
+  fontWeight: z.number(),
+  italic: z.boolean(),
+  smallCaps: z.boolean(),
+  color: z.string(),
+  align: z.enum(["left", "center", "right"]),
+  verticalAlign: z.enum(["top", "middle", "bottom"]),
+  letterSpacing: z.number(),
+  lineHeight: z.number().positive(),
+});
+
+const overflowSchema = z.object({
+  mode: z.enum(["none", "shrink", "wrap", "ellipsis"]),
+  minFontSize: z.number().positive(),
+  maxLines: z.number().int().positive(),
+});
+
+const contentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("column") }),
+  z.object({ type: z.literal("template"), template: z.string() }),
+  z.object({ type: z.literal("static"), text: z.string() }),
+]);
+
+export const boxSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  locked: z.boolean(),
+  hidden: z.boolean(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  rotation: z.number(),
+  typography: typographySchema,
+  overflow: overflowSchema,
+  content: contentSchema,
+});
+
+const fontEntrySchema = z.object({
+  id: z.string(),
+  family: z.string(),
+  weight: z.number(),
+  style: z.enum(["normal", "italic"]),
+  fileName: z.string(),
+  path: z.string(),
+});
+
+const manifestSchema = z.object({
+  version: z.literal(PROJECT_VERSION),
+  name: z.string(),
+  template: z.object({ fileName: z.string(), path: z.string() }),
+  dataset: z.object({ fileName: z.string(), path: z.string(), sheetName: z.string().optional() }),
+  layout: z.object({
+    boxes: z.array(boxSchema),
+    columnMappings: z.array(z.object({ columnId: z.string(), boxId: z.string() })),
+    fonts: z.array(fontEntrySchema),
+    dpi: z.number().positive(),
+  }),
+});
+
+const cellSchema = z.union([
+  z.string(),
+  z.object({ type: z.literal("number"), value: z.number(), text: z.string() }),
+  z.object({ type: z.literal("date"), value: z.string(), text: z.string() }),
+]);
+
+const datasetSchema = z.object({
+  columns: z.array(z.string()),
+  rows: z.array(z.array(cellSchema)),
+});
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+export const migrateManifest = (raw: unknown): Manifest => {
+  if (typeof raw !== "object" || raw === null || typeof (raw as Manifest).version !== "number") {
+    throw new ProjectFileError("Project file has no version");
+  }
+
+  let manifest = raw as Manifest;
+  if (manifest.version > PROJECT_VERSION) {
+    throw new ProjectFileError("Project was saved by a newer version of Certificattaca");
+  }
+  while (manifest.version < PROJECT_VERSION) {
+    const migrate = migrations[manifest.version];
+    if (!migrate) throw new ProjectFileError(`Unsupported project version ${manifest.version}`);
+    manifest = migrate(manifest);
+  }
+  return manifest;
+};
+
+const safeFileName = (fileName: string) => fileName.replace(/[\\/:*?"<>|]/g, "_");
+
+export const exportProject = async (project: Project): Promise<Blob> => {
+  const zip = new JSZip();
+  const templatePath = `template/${safeFileName(project.template.fileName)}`;
+  const datasetPath = "dataset.json";
+
+  zip.file(templatePath, project.template.blob);
+  zip.file(
+    datasetPath,
+    JSON.stringify({ columns: project.dataset.columns, rows: project.dataset.rows })
+  );
+
+  const fonts = project.layout.fonts.map(({ data, ...font }) => {
+    const path = `fonts/${font.id}-${safeFileName(font.fileName)}`;
+    zip.file(path, data);
+    return { ...font, path };
+  });
+
+  const manifest: z.infer<typeof manifestSchema> = {
+    version: PROJECT_VERSION,
+    name: project.name,
+    template: { fileName: project.template.fileName, path: templatePath },
+    dataset: {
+      fileName: project.dataset.fileName,
+      path: datasetPath,
+      sheetName: project.dataset.sheetName,
+    },
+    layout: {
+      boxes: project.layout.boxes,
+      columnMappings: project.layout.columnMappings,
+      fonts,
+      dpi: project.layout.dpi,
+    },
+  };
+  // Check against the same schemas importProject uses, so a file that can't be reopened is never written
+  parseWith(manifestSchema, manifest, "project.json");
+  parseWith(datasetSchema, { columns: project.dataset.columns, rows: project.dataset.rows }, "dataset");
+  zip.file("project.json", JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: "blob" });
+};
+
+const readJson = async (zip: JSZip, path: string) => {
+  const entry = zip.file(path);
+  if (!entry) throw new ProjectFileError(`Project file is missing ${path}`);
+  try {
+    return JSON.parse(await entry.async("string"));
+  } catch {
+    throw new ProjectFileError(`${path} is not valid JSON`);
+  }
+};
+
+const readBinary = async (zip: JSZip, path: string) => {
+  const entry = zip.file(path);
+  if (!entry) throw new ProjectFileError(`Project file is missing ${path}`);
+  return entry.async("arraybuffer");
+};
+
+const parseWith = <T>(schema: z.ZodType<T>, value: unknown, what: string): T => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ProjectFileError(`Invalid ${what}: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return result.data;
+};
+
+const mimeTypeFor = (fileName: string) => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "jpg" || extension === "jpeg") return "image/jpeg";
+  if (extension === "webp") return "image/webp";
+  return "image/png";
+};
+
+export const importProject = async (file: Blob): Promise<Project> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new ProjectFileError("Not a Certificattaca project file");
+  }
+
+  const manifest = parseWith(
+    manifestSchema,
+    migrateManifest(await readJson(zip, "project.json")),
+    "project.json"
+  );
+  const dataset = parseWith(datasetSchema, await readJson(zip, manifest.dataset.path), "dataset");
+
+  const fonts = await Promise.all(
+    manifest.layout.fonts.map(
+      async ({ path, ...font }) => ({ ...font, data: await readBinary(zip, path) }) as CustomFont
+    )
+  );
+
+  return {
+    name: manifest.name,
+    template: {
+      fileName: manifest.template.fileName,
+      blob: new Blob([await readBinary(zip, manifest.template.path)], {
+        type: mimeTypeFor(manifest.template.fileName),
+      }),
+    },
+    dataset: {
+      fileName: manifest.dataset.fileName,
+      sheetName: manifest.dataset.sheetName,
+      columns: dataset.columns,
+      rows: dataset.rows as DatasetRow[],
+    },
+    layout: {
+      boxes: manifest.layout.boxes as BoxPosition[],
+      columnMappings: manifest.layout.columnMappings as ColumnMapping[],
+      fonts,
+      dpi: manifest.layout.dpi,
+    },
+  };
+};
@@ -0,0 +1,89 @@
+import { PROJECTS_STORE, PROJECT_DATA_STORE, dbDelete, dbGet, dbGetAll, dbPut } from "./db";
+import { releaseTemplate, renderCertificate } from "./renderer";
+import type { Project } from "./project";
+import { createId } from "./utils";
+
+/** What the project list needs, stored apart from the (large) project contents */
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  rowCount: number;
+  thumbnail: Blob | null;
+}
+
+const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Renders the first row at thumbnail size. `templateUrl` lets the editor reuse
+ * its already-decoded template instead of decoding the blob again.
+ */
+const createThumbnail = async (project: Project, templateUrl?: string): Promise<Blob | null> => {
+  const url = templateUrl ?? URL.createObjectURL(project.template.blob);
+  try {
+    const full = await renderCertificate(
+      { templateUrl: url, columns: project.dataset.columns, ...project.layout },
+      project.dataset.rows[0] ?? []
+    );
+    const thumbnail = document.createElement("canvas");
+    thumbnail.width = THUMBNAIL_WIDTH;
+    thumbnail.height = Math.round((full.height / full.width) * THUMBNAIL_WIDTH);
+    thumbnail.getContext("2d")?.drawImage(full, 0, 0, thumbnail.width, thumbnail.height);
+    return await new Promise<Blob | null>((resolve) => thumbnail.toBlob(resolve, "image/jpeg", 0.8));
+  } catch (error) {
+    console.error("Failed to render thumbnail", error);
+    return null;
+  } finally {
+    if (!templateUrl) {
+      releaseTemplate(url);
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+export const listProjects = async () =>
+  (await dbGetAll<ProjectRecord>(PROJECTS_STORE)).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const getProject = (id: string) => dbGet<Project>(PROJECT_DATA_STORE, id);
+
+export const saveProject = async (id: string, project: Project, templateUrl?: string) => {
+  const existing = await dbGet<ProjectRecord>(PROJECTS_STORE, id);
+  const now = Date.now();
+  await dbPut(PROJECT_DATA_STORE, id, project);
+  await dbPut(PROJECTS_STORE, id, {
+    id,
+    name: project.name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    rowCount: project.dataset.rows.length,
+    thumbnail: await createThumbnail(project, templateUrl),
+  } satisfies ProjectRecord);
+};
+
+export const createProject = async (project: Project, templateUrl?: string) => {
+  const id = createId();
+  await saveProject(id, project, templateUrl);
+  return id;
+};
+
+export const duplicateProject = async (id: string) => {
+  const project = await getProject(id);
+  if (!project) throw new Error("Project not found");
+  return createProject({ ...project, name: `${project.name} (copy)` });
+};
+
+export const renameProject = async (id: string, name: string) => {
+  const [record, project] = await Promise.all([
+    dbGet<ProjectRecord>(PROJECTS_STORE, id),
+    getProject(id),
+  ]);
+  if (!record || !project) throw new Error("Project not found");
+  await dbPut(PROJECT_DATA_STORE, id, { ...project, name });
+  await dbPut(PROJECTS_STORE, id, { ...record, name, updatedAt: Date.now() });
+};
+
+export const deleteProject = async (id: string) => {
+  await dbDelete(PROJECTS_STORE, id);
+  await dbDelete(PROJECT_DATA_STORE, id);
+};
@@ -0,0 +1,137 @@
+import type { BoxPosition } from "@/components/DraggableBox";
+import type { ColumnMapping } from "@/components/DatasetPreview";
+import { CustomFont, ensureFontsReady } from "./fonts";
+import { layoutText } from "./textLayout";
+import { resolveTemplate } from "./textTemplate";
+import { DatasetRow, cellText } from "./dataset";
+
+/**
+ * Everything needed to draw a certificate except the data row itself.
+ * Preview, batch generation and any export format render through this model
+ * so they can never disagree about what the output looks like.
+ */
+export interface CertificateLayout {
+  templateUrl: string;
+  boxes: BoxPosition[];
+  columnMappings: ColumnMapping[];
+  columns: string[];
+  fonts: CustomFont[];
+}
+
+// Decoded templates keyed by URL, so a batch run decodes the image only once.
+const templateCache = new Map<string, Promise<ImageBitmap>>();
+
+export const loadTemplate = (url: string): Promise<ImageBitmap> => {
+  let bitmap = templateCache.get(url);
+  if (!bitmap) {
+    bitmap = fetch(url)
+      .then((response) => response.blob())
+      .then((blob) => createImageBitmap(blob));
+    // Don't cache failures, a later call should be able to retry
+    bitmap.catch(() => templateCache.delete(url));
+    templateCache.set(url, bitmap);
+  }
+  return bitmap;
+};
+
+export const releaseTemplate = (url: string) => {
+  const bitmap = templateCache.get(url);
+  if (!bitmap) return;
+  templateCache.delete(url);
+  bitmap.then((b) => b.close()).catch(() => undefined);
+};
+
+/** Whether the box prints anything, i.e. it isn't hidden or a column box without a mapping */
+export const hasBoxContent = (box: BoxPosition, columnMappings: ColumnMapping[]) =>
+  !box.hidden && (box.content.type !== "column" || columnMappings.some((m) => m.boxId === box.id));
+
+/** The text a box prints for `row`, or null when it prints nothing */
+export const resolveBoxText = (layout: CertificateLayout, box: BoxPosition, row: DatasetRow) => {
+  if (box.hidden) return null;
+  if (box.content.type === "template") {
+    return resolveTemplate(box.content.template, layout.columns, row);
+  }
+  if (box.content.type === "static") {
+    return box.content.text;
+  }
+
+  const mapping = layout.columnMappings.find((m) => m.boxId === box.id);
+  if (!mapping) return null;
+  const colIndex = layout.columns.indexOf(mapping.columnId);
+  return cellText(row[colIndex]);
+};
+
+const drawBox = (ctx: CanvasRenderingContext2D, box: BoxPosition, text: string) => {
+  const { typography } = box;
+  ctx.save();
+  if (box.rotation) {
+    // Rotate about the box center; the text is then laid out as if unrotated
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    ctx.translate(centerX, centerY);
+    ctx.rotate((box.rotation * Math.PI) / 180);
+    ctx.translate(-centerX, -centerY);
+  }
+  const { lines, lineHeight } = layoutText(ctx, box, text);
+  const blockHeight = lines.length * lineHeight;
+
+  let top = box.y + (box.height - blockHeight) / 2;
+  if (typography.verticalAlign === "top") top = box.y;
+  if (typography.verticalAlign === "bottom") top = box.y + box.height - blockHeight;
+
+  let x = box.x + box.width / 2;
+  if (typography.align === "left") x = box.x;
+  if (typography.align === "right") x = box.x + box.width;
+
+  ctx.fillStyle = typography.color;
+  ctx.textAlign = typography.align;
+  ctx.textBaseline = "middle";
+  lines.forEach((line, i) => {
+    ctx.fillText(line, x, top + (i + 0.5) * lineHeight);
+  });
+  ctx.restore();
+};
+
+/**
+ * Draws one certificate for `row` onto `canvas` (a fresh one if omitted).
+ * Passing the same canvas for every row avoids reallocating during batch runs.
+ */
+export const renderCertificate = async (
+  layout: CertificateLayout,
+  row: DatasetRow,
+  canvas: HTMLCanvasElement = document.createElement("canvas")
+): Promise<HTMLCanvasElement> => {
+  const [template] = await Promise.all([
+    loadTemplate(layout.templateUrl),
+    ensureFontsReady(layout.fonts, layout.boxes.map((box) => box.typography)),
+  ]);
+  canvas.width = template.width;
+  canvas.height = template.height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(template, 0, 0);
+
+  layout.boxes.forEach((box) => {
+    const text = resolveBoxText(layout, box, row);
+    if (text !== null) drawBox(ctx, box, text);
+  });
+
+  return canvas;
+};
+
+export const renderCertificateBlob = async (
+  layout: CertificateLayout,
+  row: DatasetRow,
+  type = "image/png",
+  canvas?: HTMLCanvasElement
+): Promise<Blob> => {
+  const rendered = await renderCertificate(layout, row, canvas);
+  return new Promise<Blob>((resolve, reject) => {
+    rendered.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Failed to encode certificate"));
+    }, type);
+  });
+};
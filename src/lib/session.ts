@@ -0,0 +1,18 @@
+import { SESSION_STORE, dbDelete, dbGet, dbPut } from "./db";
+import type { Project } from "./project";
+
+export interface SavedSession {
+  project: Project;
+  savedAt: number;
+}
+
+const SESSION_KEY = "current";
+
+export const AUTOSAVE_DELAY_MS = 1000;
+
+export const loadSession = () => dbGet<SavedSession>(SESSION_STORE, SESSION_KEY);
+
+export const saveSession = (project: Project) =>
+  dbPut(SESSION_STORE, SESSION_KEY, { project, savedAt: Date.now() } satisfies SavedSession);
+
+export const clearSession = () => dbDelete(SESSION_STORE, SESSION_KEY);
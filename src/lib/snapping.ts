@@ -0,0 +1,118 @@
+import { BoxGeometry, MIN_BOX_HEIGHT, MIN_BOX_WIDTH } from "./geometry";
+
+export interface SnapSettings {
+  enabled: boolean;
+  /** Grid spacing in template pixels, 0 turns the grid off */
+  gridSize: number;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { enabled: true, gridSize: 0 };
+
+/** A line the moving box snapped to, in template pixels */
+export interface SnapGuide {
+  orientation: "vertical" | "horizontal";
+  position: number;
+}
+
+/** How close an edge has to get before it snaps, in screen pixels */
+export const SNAP_THRESHOLD = 6;
+
+type Edge = "start" | "center" | "end";
+
+interface AxisSnap {
+  delta: number;
+  target: number;
+}
+
+const edgePosition = (start: number, size: number, edge: Edge) =>
+  edge === "start" ? start : edge === "center" ? start + size / 2 : start + size;
+
+const axisTargets = (boxes: BoxGeometry[], axis: "x" | "y", templateSize: number) => {
+  const size = axis === "x" ? "width" : "height";
+  return [
+    templateSize / 2,
+    ...boxes.flatMap((box) => [box[axis], box[axis] + box[size] / 2, box[axis] + box[size]]),
+  ];
+};
+
+const findAxisSnap = (
+  start: number,
+  size: number,
+  edges: Edge[],
+  targets: number[],
+  threshold: number
+): AxisSnap | null => {
+  let best: AxisSnap | null = null;
+  for (const edge of edges) {
+    const position = edgePosition(start, size, edge);
+    for (const target of targets) {
+      const delta = target - position;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, target };
+      }
+    }
+  }
+  return best;
+};
+
+const snapToGrid = (position: number, gridSize: number) => Math.round(position / gridSize) * gridSize - position;
+
+// A move snaps any edge or the center; a resize handle only snaps the edges it drags
+const movingEdges = (handle: string | null, axis: "x" | "y"): Edge[] => {
+  if (!handle) return ["start", "center", "end"];
+  const [before, after] = axis === "x" ? ["w", "e"] : ["n", "s"];
+  if (handle.includes(before)) return ["start"];
+  if (handle.includes(after)) return ["end"];
+  return [];
+};
+
+/**
+ * Pulls a box being moved (`handle` null) or resized (`handle` like "ne") onto
+ * the template center lines and the edges and centers of `others`, falling
+ * back to the grid. `threshold` is in template pixels.
+ */
+export const snapGeometry = (
+  geometry: BoxGeometry,
+  handle: string | null,
+  others: BoxGeometry[],
+  template: { width: number; height: number },
+  settings: SnapSettings,
+  threshold: number
+): { geometry: BoxGeometry; guides: SnapGuide[] } => {
+  const snapped = { ...geometry };
+  const guides: SnapGuide[] = [];
+
+  for (const axis of ["x", "y"] as const) {
+    const size = axis === "x" ? "width" : "height";
+    const edges = movingEdges(handle, axis);
+    if (edges.length === 0) continue;
+
+    const snap = findAxisSnap(
+      snapped[axis],
+      snapped[size],
+      edges,
+      axisTargets(others, axis, axis === "x" ? template.width : template.height),
+      threshold
+    );
+    let delta = snap?.delta ?? 0;
+    if (!snap && settings.gridSize > 0) {
+      delta = snapToGrid(edgePosition(snapped[axis], snapped[size], edges[0]), settings.gridSize);
+    }
+
+    // Skip a snap that would shrink the box past the size the resize handles allow
+    const minSize = axis === "x" ? MIN_BOX_WIDTH : MIN_BOX_HEIGHT;
+    if (handle && snapped[size] + (edges[0] === "start" ? -delta : delta) < minSize) continue;
+    if (snap) guides.push({ orientation: axis === "x" ? "vertical" : "horizontal", position: snap.target });
+
+    if (!handle) {
+      snapped[axis] += delta;
+    } else if (edges[0] === "start") {
+      snapped[axis] += delta;
+      snapped[size] -= delta;
+    } else {
+      snapped[size] += delta;
+    }
+  }
+
+  return { geometry: snapped, guides };
+};
@@ -0,0 +1,203 @@
+import type { BoxPosition } from "@/components/DraggableBox";
+import { buildFont, resolveFontSize } from "./typography";
+
+export type OverflowMode = "none" | "shrink" | "wrap" | "ellipsis";
+
+export interface BoxOverflow {
+  mode: OverflowMode;
+  /** Smallest size "shrink" may reduce to; the box's font size is the largest */
+  minFontSize: number;
+  /** Line limit for "wrap" and "shrink"; the box height may allow fewer */
+  maxLines: number;
+}
+
+export const DEFAULT_OVERFLOW: BoxOverflow = {
+  mode: "shrink",
+  minFontSize: 10,
+  maxLines: 1,
+};
+
+export interface TextLayout {
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+  /** The text was larger than the box and had to be cut with an ellipsis */
+  truncated: boolean;
+  /** Some of the drawn text extends outside the box (only possible with "none") */
+  overflows: boolean;
+}
+
+const ELLIPSIS = "…";
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/** Shared context for measuring text outside of a render */
+export const getMeasureContext = () => {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  return measureContext;
+};
+
+const widthOf = (ctx: CanvasRenderingContext2D, text: string) => ctx.measureText(text).width;
+
+const breakWord = (ctx: CanvasRenderingContext2D, word: string, maxWidth: number) => {
+  const chunks: string[] = [];
+  let chunk = "";
+  for (const char of word) {
+    if (chunk && widthOf(ctx, chunk + char) > maxWidth) {
+      chunks.push(chunk);
+      chunk = char;
+    } else {
+      chunk += char;
+    }
+  }
+  chunks.push(chunk);
+  return chunks;
+};
+
+/** Greedy word wrap, breaking words that are wider than a whole line */
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+
+  text.split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (widthOf(ctx, candidate) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        const chunks = breakWord(ctx, word, maxWidth);
+        lines.push(...chunks.slice(0, -1));
+        line = chunks[chunks.length - 1];
+      });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/** Cuts `text` so that it plus an ellipsis fits in `maxWidth` */
+export const ellipsize = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, force = false) => {
+  if (!force && widthOf(ctx, text) <= maxWidth) return text;
+
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (widthOf(ctx, text.slice(0, mid).trimEnd() + ELLIPSIS) <= maxWidth) low = mid;
+    else high = mid - 1;
+  }
+  return text.slice(0, low).trimEnd() + ELLIPSIS;
+};
+
+const applyFont = (ctx: CanvasRenderingContext2D, box: BoxPosition, fontSize: number) => {
+  ctx.font = buildFont(box.typography, fontSize);
+  ctx.letterSpacing = `${box.typography.letterSpacing}px`;
+};
+
+const lineLimit = (box: BoxPosition, lineHeight: number) =>
+  Math.max(1, Math.min(box.overflow.maxLines, Math.floor(box.height / lineHeight)));
+
+const fitsBox = (ctx: CanvasRenderingContext2D, box: BoxPosition, lines: string[], lineHeight: number) =>
+  lines.length * lineHeight <= box.height && lines.every((line) => widthOf(ctx, line) <= box.width);
+
+/** Wraps to the line limit, ellipsizing the last line if text is left over */
+const wrapAndTruncate = (ctx: CanvasRenderingContext2D, box: BoxPosition, text: string, fontSize: number) => {
+  const lineHeight = fontSize * box.typography.lineHeight;
+  const wrapped = wrapText(ctx, text, box.width);
+  const limit = lineLimit(box, lineHeight);
+  if (wrapped.length <= limit) {
+    return { lines: wrapped, fontSize, lineHeight, truncated: false, overflows: false };
+  }
+  const lines = wrapped.slice(0, limit);
+  lines[limit - 1] = ellipsize(ctx, lines[limit - 1], box.width, true);
+  return { lines, fontSize, lineHeight, truncated: true, overflows: false };
+};
+
+/**
+ * Works out the lines and font size `text` is drawn with in `box`, according
+ * to the box's overflow mode. Leaves `ctx` set to the resulting font.
+ */
+export const layoutText = (ctx: CanvasRenderingContext2D, box: BoxPosition, text: string): TextLayout => {
+  const { overflow, typography } = box;
+  const baseSize = resolveFontSize(typography, box.height);
+  applyFont(ctx, box, baseSize);
+
+  if (overflow.mode === "none") {
+    const lineHeight = baseSize * typography.lineHeight;
+    const lines = text.split("\n");
+    return {
+      lines,
+      fontSize: baseSize,
+      lineHeight,
+      truncated: false,
+      overflows: !fitsBox(ctx, box, lines, lineHeight),
+    };
+  }
+
+  if (overflow.mode === "ellipsis") {
+    const single = text.replace(/\s*\n\s*/g, " ");
+    const line = ellipsize(ctx, single, box.width);
+    return {
+      lines: [line],
+      fontSize: baseSize,
+      lineHeight: baseSize * typography.lineHeight,
+      truncated: line !== single,
+      overflows: false,
+    };
+  }
+
+  if (overflow.mode === "wrap") {
+    return wrapAndTruncate(ctx, box, text, baseSize);
+  }
+
+  // "shrink": binary search for the largest size that fits, in half-pixel steps
+  const fitsAt = (fontSize: number) => {
+    applyFont(ctx, box, fontSize);
+    const lineHeight = fontSize * typography.lineHeight;
+    const lines = overflow.maxLines > 1 ? wrapText(ctx, text, box.width) : text.split("\n");
+    return lines.length <= overflow.maxLines && fitsBox(ctx, box, lines, lineHeight) ? lines : null;
+  };
+
+  const minSize = Math.min(overflow.minFontSize, baseSize);
+  let low = Math.ceil(minSize * 2);
+  let high = Math.floor(baseSize * 2);
+  let best: { lines: string[]; fontSize: number } | null = null;
+
+  const atBase = fitsAt(baseSize);
+  if (atBase) {
+    best = { lines: atBase, fontSize: baseSize };
+  } else {
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const lines = fitsAt(mid / 2);
+      if (lines) {
+        best = { lines, fontSize: mid / 2 };
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+  }
+
+  if (!best) {
+    // Even the minimum size doesn't fit, so cut the text rather than overflow
+    applyFont(ctx, box, minSize);
+    return wrapAndTruncate(ctx, box, text, minSize);
+  }
+
+  applyFont(ctx, box, best.fontSize);
+  return {
+    lines: best.lines,
+    fontSize: best.fontSize,
+    lineHeight: best.fontSize * typography.lineHeight,
+    truncated: false,
+    overflows: false,
+  };
+};
@@ -0,0 +1,101 @@
+import { DatasetRow, cellText } from "./dataset";
+
+/**
+ * What a box prints: the value of its mapped column, a template mixing
+ * literal text with `{Column}` placeholders resolved per row, or fixed text
+ * that is the same on every certificate.
+ */
+export type BoxContent =
+  | { type: "column" }
+  | { type: "template"; template: string }
+  | { type: "static"; text: string };
+
+export type TemplatePart =
+  | { kind: "text"; text: string }
+  | { kind: "placeholder"; column: string; fallback: string | null };
+
+/**
+ * Splits a template into literal text and placeholders. `{Column}` is replaced
+ * by the row's value, `{Column|fallback}` uses the fallback when that value is
+ * blank, and `{{` / `}}` produce literal braces. Inside a placeholder a
+ * backslash escapes the next character, for column names holding `|` or `}`.
+ */
+export const parseTemplate = (template: string): TemplatePart[] => {
+  const parts: TemplatePart[] = [];
+  let text = "";
+
+  const pushText = () => {
+    if (text) parts.push({ kind: "text", text });
+    text = "";
+  };
+
+  for (let i = 0; i < template.length; i++) {
+    const char = template[i];
+    if ((char === "{" || char === "}") && template[i + 1] === char) {
+      text += char;
+      i++;
+      continue;
+    }
+    if (char === "{") {
+      let column = "";
+      let fallback: string | null = null;
+      let end = -1;
+      for (let j = i + 1; j < template.length; j++) {
+        let next = template[j];
+        if (next === "}") {
+          end = j;
+          break;
+        }
+        if (next === "|" && fallback === null) {
+          fallback = "";
+          continue;
+        }
+        if (next === "\\" && j + 1 < template.length) next = template[++j];
+        if (fallback === null) column += next;
+        else fallback += next;
+      }
+      if (end === -1) {
+        text += template.slice(i);
+        break;
+      }
+      pushText();
+      parts.push({ kind: "placeholder", column: column.trim(), fallback });
+      i = end;
+      continue;
+    }
+    text += char;
+  }
+
+  pushText();
+  return parts;
+};
+
+export const templateColumns = (template: string) => [
+  ...new Set(
+    parseTemplate(template)
+      .filter((part): part is Extract<TemplatePart, { kind: "placeholder" }> => part.kind === "placeholder")
+      .map((part) => part.column)
+  ),
+];
+
+/** Placeholders naming columns the dataset doesn't have */
+export const unknownTemplateColumns = (template: string, columns: string[]) =>
+  templateColumns(template).filter((column) => !columns.includes(column));
+
+/**
+ * Fills in a template for one row. Runs of spaces left behind by blank
+ * optional fields ("{First} {Middle|} {Last}") collapse to a single space.
+ */
+export const resolveTemplate = (template: string, columns: string[], row: DatasetRow) =>
+  parseTemplate(template)
+    .map((part) => {
+      if (part.kind === "text") return part.text;
+      const value = cellText(row[columns.indexOf(part.column)]);
+      return value.trim() ? value : part.fallback ?? "";
+    })
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/ {2,}/g, " ").trim())
+    .join("\n");
+
+export const placeholderFor = (column: string) => `{${column.replace(/[\\{|}]/g, "\\$&")}}`;
@@ -0,0 +1,66 @@
+export type HorizontalAlign = "left" | "center" | "right";
+export type VerticalAlign = "top" | "middle" | "bottom";
+
+export interface BoxTypography {
+  fontFamily: string;
+  /** Size in template pixels, or "auto" for 60% of the box height */
+  fontSize: number | "auto";
+  fontWeight: number;
+  italic: boolean;
+  smallCaps: boolean;
+  color: string;
+  align: HorizontalAlign;
+  verticalAlign: VerticalAlign;
+  /** Extra spacing between characters, in template pixels */
+  letterSpacing: number;
+  /** Multiple of the font size */
+  lineHeight: number;
+}
+
+export const DEFAULT_TYPOGRAPHY: BoxTypography = {
+  fontFamily: "Arial",
+  fontSize: "auto",
+  fontWeight: 400,
+  italic: false,
+  smallCaps: false,
+  color: "#000000",
+  align: "center",
+  verticalAlign: "middle",
+  letterSpacing: 0,
+  lineHeight: 1.2,
+};
+
+export const SYSTEM_FONT_FAMILIES = [
+  "Arial",
+  "Helvetica",
+  "Verdana",
+  "Trebuchet MS",
+  "Georgia",
+  "Times New Roman",
+  "Garamond",
+  "Palatino Linotype",
+  "Courier New",
+  "Brush Script MT",
+];
+
+export const FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const GENERIC_FAMILIES = ["serif", "sans-serif", "monospace", "cursive", "fantasy", "system-ui"];
+
+export const resolveFontSize = (typography: BoxTypography, boxHeight: number) =>
+  typography.fontSize === "auto" ? boxHeight * 0.6 : typography.fontSize;
+
+const quoteFamily = (family: string) =>
+  GENERIC_FAMILIES.includes(family) ? family : `"${family.replace(/"/g, '\\"')}"`;
+
+/** CSS font shorthand for `ctx.font` and `document.fonts.load` */
+export const buildFont = (typography: BoxTypography, fontSize: number) =>
+  [
+    typography.italic ? "italic" : "",
+    typography.smallCaps ? "small-caps" : "",
+    typography.fontWeight,
+    `${fontSize}px`,
+    quoteFamily(typography.fontFamily),
+  ]
+    .filter(Boolean)
+    .join(" ");
@@ -0,0 +1,22 @@
+export type LengthUnit = "px" | "mm" | "in";
+
+export const LENGTH_UNITS: LengthUnit[] = ["px", "mm", "in"];
+
+/** Assumed print resolution of a template until the user sets its real one */
+export const DEFAULT_DPI = 300;
+
+const MM_PER_INCH = 25.4;
+
+/** Converts template pixels to `unit` at the template's `dpi` */
+export const toUnit = (px: number, unit: LengthUnit, dpi: number) =>
+  unit === "px" ? px : unit === "in" ? px / dpi : (px / dpi) * MM_PER_INCH;
+
+/** Converts a length in `unit` back to template pixels */
+export const fromUnit = (value: number, unit: LengthUnit, dpi: number) =>
+  unit === "px" ? value : unit === "in" ? value * dpi : (value / MM_PER_INCH) * dpi;
+
+/** Rounds for display: tenths of a pixel or millimetre, hundredths of an inch */
+export const roundForUnit = (value: number, unit: LengthUnit) => {
+  const precision = unit === "in" ? 100 : 10;
+  return Math.round(value * precision) / precision;
+};
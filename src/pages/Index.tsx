@@ -1,17 +1,204 @@
-import { useState } from "react";
+import { MutableRefObject, useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import { UploadSection } from "@/components/UploadSection";
 import { WorkspaceCanvas } from "@/components/WorkspaceCanvas";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { SheetPicker } from "@/components/SheetPicker";
+import { DatasetImportDialog } from "@/components/DatasetImportDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FolderOpen, History, Library, Save, Trash2 } from "lucide-react";
+import { releaseTemplate } from "@/lib/renderer";
+import {
+  EMPTY_LAYOUT,
+  PROJECT_FILE_EXTENSION,
+  Project,
+  ProjectLayout,
+  exportProject,
+  importProject,
+  normalizeLayout,
+} from "@/lib/project";
+import { AUTOSAVE_DELAY_MS, SavedSession, clearSession, loadSession, saveSession } from "@/lib/session";
+import { createProject, getProject, saveProject } from "@/lib/projectLibrary";
+import {
+  DatasetFileError,
+  DatasetRow,
+  DatasetTable,
+  SheetSummary,
+  TextFormat,
+  parseJsonDataset,
+  parseNdjsonDataset,
+  parseTextDataset,
+  readWorkbook,
+  sheetData,
+  sniffTextFormat,
+  summarizeSheets,
+} from "@/lib/dataset";
 import { toast } from "sonner";
-import Papa from "papaparse";
-import * as XLSX from "xlsx";
+import type { WorkBook } from "xlsx";
 
+/** A save waiting out the autosave delay; `leaving` is set once the editor is unmounting */
+type PendingSave = (leaving: boolean) => Promise<void>;
+
+const runPendingSave = (pending: MutableRefObject<PendingSave | null>, leaving: boolean) => {
+  const save = pending.current;
+  pending.current = null;
+  save?.(leaving).catch((error) => console.error("Autosave failed", error));
+};
+
+/**
+ * The editor. At `/` it is a scratch workspace autosaved as the browser
+ * session; at `/editor/:projectId` it edits (and autosaves into) a project
+ * from the library, where `new` creates one once template and dataset exist.
+ */
 const Index = () => {
+  const { projectId } = useParams();
+  const navigate = useNavigate();
+  const inLibrary = projectId !== undefined;
   const [templateFile, setTemplateFile] = useState<File | null>(null);
   const [templateUrl, setTemplateUrl] = useState<string>("");
-  const [datasetFile, setDatasetFile] = useState<File | null>(null);
+  const [datasetFileName, setDatasetFileName] = useState<string>("");
+  const [datasetSheetName, setDatasetSheetName] = useState<string | undefined>();
+  // A workbook with several sheets waiting for the user to pick one
+  const [pendingWorkbook, setPendingWorkbook] = useState<{
+    fileName: string;
+    workbook: WorkBook;
+    sheets: SheetSummary[];
+  } | null>(null);
+  // Raw rows shown in the import dialog until the user confirms how to read them
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    sheetName?: string;
+    data: DatasetRow[];
+    /** The file's bytes for CSV/TSV, so it can be re-read with another encoding or delimiter */
+    text?: { bytes: Uint8Array; format: TextFormat };
+  } | null>(null);
   const [columns, setColumns] = useState<string[]>([]);
-  const [rows, setRows] = useState<string[][]>([]);
+  const [rows, setRows] = useState<DatasetRow[]>([]);
+  const [projectName, setProjectName] = useState("Untitled project");
+  const [initialLayout, setInitialLayout] = useState<ProjectLayout>(EMPTY_LAYOUT);
+  const [workspaceKey, setWorkspaceKey] = useState(0);
+  const [layout, setLayout] = useState<ProjectLayout>(EMPTY_LAYOUT);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Id of the project this editor already holds, so navigating to it doesn't reload it
+  const loadedProjectId = useRef<string | null>(null);
+  const isCreating = useRef(false);
+  // What loadProject put in the editor; autosave waits until something differs from it
+  const loadedState = useRef<unknown[] | null>(null);
+  const isDirty = useRef(false);
+  const pendingSave = useRef<PendingSave | null>(null);
+
+  useEffect(() => {
+    if (!inLibrary) {
+      loadSession()
+        .then((session) => setSavedSession(session ?? null))
+        .catch((error) => console.error("Failed to read saved session", error))
+        .finally(() => setIsReady(true));
+      return;
+    }
+
+    if (projectId === "new" || projectId === loadedProjectId.current) {
+      setIsReady(true);
+      return;
+    }
+
+    setIsReady(false);
+    getProject(projectId)
+      .then((project) => {
+        if (!project) {
+          toast.error("Project not found");
+          navigate("/projects", { replace: true });
+          return;
+        }
+        loadedProjectId.current = projectId;
+        loadProject(project);
+        setIsReady(true);
+      })
+      .catch((error) => {
+        console.error(error);
+        toast.error("Failed to open project");
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  const currentProject = (): Project | null =>
+    templateFile && datasetFileName
+      ? {
+          name: projectName,
+          template: { fileName: templateFile.name, blob: templateFile },
+          dataset: { fileName: datasetFileName, sheetName: datasetSheetName, columns, rows },
+          layout,
+        }
+      : null;
+
+  const autosave = async (project: Project, leaving: boolean) => {
+    // The unmount cleanup revokes the template URL, so a save made on the way out decodes the blob itself
+    const url = leaving ? undefined : templateUrl;
+    if (!inLibrary) {
+      await saveSession(project);
+    } else if (projectId !== "new") {
+      await saveProject(projectId, project, url);
+    } else if (!isCreating.current) {
+      isCreating.current = true;
+      try {
+        const id = await createProject(project, url);
+        loadedProjectId.current = id;
+        if (!leaving) navigate(`/editor/${id}`, { replace: true });
+      } catch (error) {
+        // Let the next change try again instead of never saving this project
+        isCreating.current = false;
+        throw error;
+      }
+    }
+  };
+
+  useEffect(() => {
+    // Hold off until the user has decided what to do with the previous session
+    if (!isReady || savedSession) return;
+    const project = currentProject();
+    if (!project) return;
+
+    // Opening a project isn't an edit, don't bump its modified time or re-render its thumbnail
+    const state = [templateFile, datasetFileName, datasetSheetName, columns, rows, projectName, layout];
+    const loaded = loadedState.current;
+    if (!isDirty.current && loaded && state.every((value, i) => value === loaded[i])) return;
+    isDirty.current = true;
+
+    pendingSave.current = (leaving) => autosave(project, leaving);
+    const timer = setTimeout(() => runPendingSave(pendingSave, false), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templateFile, datasetFileName, datasetSheetName, columns, rows, projectName, layout, isReady, savedSession]);
+
+  // The editor unmounts when going back to the library; free its decoded template then
+  const templateUrlRef = useRef(templateUrl);
+  templateUrlRef.current = templateUrl;
+
+  useEffect(() => {
+    // Closing the tab or leaving the editor mustn't drop an edit still waiting out the delay
+    const handlePageHide = () => runPendingSave(pendingSave, false);
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      runPendingSave(pendingSave, true);
+      if (!templateUrlRef.current) return;
+      releaseTemplate(templateUrlRef.current);
+      URL.revokeObjectURL(templateUrlRef.current);
+    };
+  }, []);
+
+  const setTemplate = (file: File) => {
+    if (templateUrl) {
+      releaseTemplate(templateUrl);
+      URL.revokeObjectURL(templateUrl);
+    }
+
+    setTemplateFile(file);
+    setTemplateUrl(URL.createObjectURL(file));
+  };
 
   const handleTemplateUpload = (file: File) => {
     if (!file.type.startsWith("image/")) {
@@ -19,55 +206,160 @@ const Index = () => {
       return;
     }
 
-    setTemplateFile(file);
-    const url = URL.createObjectURL(file);
-    setTemplateUrl(url);
+    setTemplate(file);
+    // Starting new work declines the restore offer, so that work gets autosaved
+    setSavedSession(null);
     toast.success("Template uploaded successfully!");
   };
 
+  const loadProject = (project: Project) => {
+    const { template, dataset } = project;
+    const layout = normalizeLayout(project.layout);
+    const file = new File([template.blob], template.fileName, { type: template.blob.type });
+    setTemplate(file);
+    setDatasetFileName(dataset.fileName);
+    setDatasetSheetName(dataset.sheetName);
+    setColumns(dataset.columns);
+    setRows(dataset.rows);
+    setProjectName(project.name);
+    setLayout(layout);
+    setInitialLayout(layout);
+    loadedState.current = [
+      file,
+      dataset.fileName,
+      dataset.sheetName,
+      dataset.columns,
+      dataset.rows,
+      project.name,
+      layout,
+    ];
+    isDirty.current = false;
+    // Remount the workspace so it picks up the loaded layout
+    setWorkspaceKey((key) => key + 1);
+  };
+
+  const handleProjectOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      loadProject(await importProject(file));
+      setSavedSession(null);
+      toast.success("Project opened");
+    } catch (error) {
+      console.error(error);
+      toast.error(`Failed to open project: ${(error as Error).message}`);
+    }
+  };
+
+  const restoreSession = () => {
+    if (!savedSession) return;
+    loadProject(savedSession.project);
+    setSavedSession(null);
+    toast.success("Previous session restored");
+  };
+
+  const discardSession = () => {
+    setSavedSession(null);
+    clearSession().catch((error) => console.error("Failed to discard session", error));
+  };
+
+  const handleAddToLibrary = async () => {
+    const project = currentProject();
+    if (!project) return;
+
+    try {
+      const id = await createProject(project, templateUrl);
+      toast.success("Project added to library");
+      navigate(`/editor/${id}`);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to add project to library");
+    }
+  };
+
+  const handleProjectSave = async () => {
+    const project = currentProject();
+    if (!project) return;
+
+    try {
+      const blob = await exportProject(project);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${projectName}${PROJECT_FILE_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success("Project saved");
+    } catch (error) {
+      console.error(error);
+      toast.error(`Failed to save project: ${(error as Error).message}`);
+    }
+  };
+
+  const loadDataset = (fileName: string, table: DatasetTable, sheetName?: string) => {
+    if (table.columns.length === 0) {
+      toast.error("The dataset is empty");
+      return;
+    }
+    setColumns(table.columns);
+    setRows(table.rows);
+    setDatasetFileName(fileName);
+    setDatasetSheetName(sheetName);
+    setSavedSession(null);
+    toast.success("Dataset uploaded successfully!");
+  };
+
+  const handleSheetConfirm = (sheetName: string) => {
+    if (!pendingWorkbook) return;
+    const { fileName, workbook } = pendingWorkbook;
+    setPendingWorkbook(null);
+    setPendingImport({ fileName, sheetName, data: sheetData(workbook, sheetName) });
+  };
+
+  const handleTextFormatChange = (format: TextFormat) => {
+    setPendingImport((current) =>
+      current?.text
+        ? { ...current, data: parseTextDataset(current.text.bytes, format), text: { ...current.text, format } }
+        : current
+    );
+  };
+
+  const handleImportConfirm = (table: DatasetTable) => {
+    if (!pendingImport) return;
+    setPendingImport(null);
+    loadDataset(pendingImport.fileName, table, pendingImport.sheetName);
+  };
+
   const handleDatasetUpload = async (file: File) => {
     const extension = file.name.split(".").pop()?.toLowerCase();
 
     try {
       if (extension === "csv" || extension === "tsv") {
-        const delimiter = extension === "tsv" ? "\t" : ",";
-        const text = await file.text();
-        
-        Papa.parse(text, {
-          delimiter,
-          complete: (results) => {
-            if (results.data.length > 0) {
-              const data = results.data as string[][];
-              setColumns(data[0]);
-              setRows(data.slice(1).filter((row) => row.some((cell) => cell.trim())));
-              toast.success("Dataset uploaded successfully!");
-            }
-          },
-          error: () => {
-            toast.error("Failed to parse dataset");
-          },
-        });
-      } else if (extension === "xlsx" || extension === "xls") {
-        const arrayBuffer = await file.arrayBuffer();
-        const workbook = XLSX.read(arrayBuffer, { type: "array" });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as string[][];
-
-        if (data.length > 0) {
-          setColumns(data[0]);
-          setRows(data.slice(1).filter((row) => row.some((cell) => cell?.toString().trim())));
-          toast.success("Dataset uploaded successfully!");
+        // Exports in the wild mix delimiters and encodings regardless of extension, so sniff both
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const format = sniffTextFormat(bytes);
+        setPendingImport({ fileName: file.name, data: parseTextDataset(bytes, format), text: { bytes, format } });
+      } else if (extension === "json" || extension === "ndjson") {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const data = extension === "json" ? parseJsonDataset(bytes) : parseNdjsonDataset(bytes);
+        setPendingImport({ fileName: file.name, data });
+      } else if (extension === "xlsx" || extension === "xls" || extension === "ods") {
+        const workbook = await readWorkbook(file);
+        if (workbook.SheetNames.length === 1) {
+          const [sheetName] = workbook.SheetNames;
+          setPendingImport({ fileName: file.name, sheetName, data: sheetData(workbook, sheetName) });
+        } else {
+          // Registrars' workbooks often keep the real list behind other sheets, so ask
+          setPendingWorkbook({ fileName: file.name, workbook, sheets: summarizeSheets(workbook) });
         }
       } else {
         toast.error("Unsupported file format");
-        return;
       }
-
-      setDatasetFile(file);
     } catch (error) {
       console.error(error);
-      toast.error("Failed to load dataset");
+      toast.error(error instanceof DatasetFileError ? error.message : "Failed to load dataset");
     }
   };
 
@@ -88,11 +380,112 @@ const Index = () => {
             </h1>
             
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-2 flex-wrap justify-end">
+            {inLibrary && (
+              <Input
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                aria-label="Project name"
+                className="w-56 border-2 border-[#8B4513] bg-[#F5E6D3] text-[#2C1810] font-body font-bold"
+              />
+            )}
+            <Button
+              asChild
+              className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+            >
+              <Link to="/projects">
+                <Library className="mr-2 h-4 w-4" />
+                Projects
+              </Link>
+            </Button>
+            {!inLibrary && (
+              <Button
+                onClick={() => projectInputRef.current?.click()}
+                className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+              >
+                <FolderOpen className="mr-2 h-4 w-4" />
+                Open Project
+              </Button>
+            )}
+            {templateUrl && datasetFileName && (
+              <Button
+                onClick={handleProjectSave}
+                className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Save Project
+              </Button>
+            )}
+            {!inLibrary && templateUrl && datasetFileName && (
+              <Button
+                onClick={handleAddToLibrary}
+                className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+              >
+                <Library className="mr-2 h-4 w-4" />
+                Add to Library
+              </Button>
+            )}
+            <input
+              ref={projectInputRef}
+              type="file"
+              className="hidden"
+              accept={`${PROJECT_FILE_EXTENSION},.zip`}
+              onChange={handleProjectOpen}
+            />
+            <ThemeToggle />
+          </div>
         </div>
 
+        <SheetPicker
+          sheets={pendingWorkbook?.sheets ?? null}
+          fileName={pendingWorkbook?.fileName ?? ""}
+          defaultSheet={datasetSheetName}
+          onConfirm={handleSheetConfirm}
+          onCancel={() => setPendingWorkbook(null)}
+        />
+        <DatasetImportDialog
+          data={pendingImport?.data ?? null}
+          fileName={pendingImport?.fileName ?? ""}
+          textFormat={pendingImport?.text?.format}
+          onTextFormatChange={handleTextFormatChange}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+
+        {/* Restore previous session */}
+        {savedSession && (
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-8 p-4 border-4 border-[#8B4513] bg-[#DCC9B3] shadow-[6px_6px_0_#654321]">
+            <div className="flex items-center gap-3 text-[#2C1810] font-body">
+              <History className="h-6 w-6 text-[#8B4513]" />
+              <div>
+                <p className="font-bold uppercase">Unsaved work found</p>
+                <p className="text-sm text-[#654321]">
+                  "{savedSession.project.name}" with {savedSession.project.layout.boxes.length} text boxes, last
+                  changed {new Date(savedSession.savedAt).toLocaleString()}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={restoreSession}
+                className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+              >
+                <History className="mr-2 h-4 w-4" />
+                Restore previous session
+              </Button>
+              <Button
+                onClick={discardSession}
+                className="bg-[#F5E6D3] hover:bg-[#C9B8A3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Upload Section */}
-        {(!templateUrl || !datasetFile) && (
+        {(!templateUrl || !datasetFileName) && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
             <UploadSection
               title="Certificate Template"
@@ -105,21 +498,28 @@ const Index = () => {
             <UploadSection
               title="Dataset"
               description="Upload your data file"
-              acceptedFormats=".csv,.tsv,.xlsx,.xls"
+              acceptedFormats=".csv,.tsv,.xlsx,.xls,.ods,.json,.ndjson"
               onFileUpload={handleDatasetUpload}
-              uploadedFileName={datasetFile?.name}
+              uploadedFileName={datasetFileName}
               icon="data"
             />
           </div>
         )}
 
         {/* Workspace */}
-        {templateUrl && datasetFile && columns.length > 0 && (
-          <WorkspaceCanvas templateUrl={templateUrl} columns={columns} rows={rows} />
+        {templateUrl && datasetFileName && columns.length > 0 && (
+          <WorkspaceCanvas
+            key={workspaceKey}
+            templateUrl={templateUrl}
+            columns={columns}
+            rows={rows}
+            initialLayout={initialLayout}
+            onLayoutChange={setLayout}
+          />
         )}
 
         {/* Instructions */}
-        {(!templateUrl || !datasetFile) && (
+        {(!templateUrl || !datasetFileName) && (
           <div className="mt-8 p-6 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[6px_6px_0_#654321]">
             <div className="border-b-4 border-double border-[#8B4513] pb-3 mb-4">
               <h2 className="text-2xl font-bold text-[#2C1810] font-headline uppercase tracking-wide text-center">✦ Instructions ✦</h2>
@@ -131,7 +531,7 @@ const Index = () => {
               </li>
               <li className="flex gap-3 items-start border-l-4 border-[#8B4513] pl-3">
                 <span className="text-[#8B4513] font-bold text-lg font-headline">II.</span>
-                <span>Upload a dataset (CSV, TSV, or Excel)</span>
+                <span>Upload a dataset (CSV, TSV, Excel, ODS, or JSON)</span>
               </li>
               <li className="flex gap-3 items-start border-l-4 border-[#8B4513] pl-3">
                 <span className="text-[#8B4513] font-bold text-lg font-headline">III.</span>
@@ -0,0 +1,290 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, FileUp, FolderOpen, Image, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PROJECT_FILE_EXTENSION, importProject } from "@/lib/project";
+import {
+  ProjectRecord,
+  createProject,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject,
+} from "@/lib/projectLibrary";
+
+const ProjectThumbnail = ({ thumbnail, name }: { thumbnail: Blob | null; name: string }) => {
+  const [url, setUrl] = useState("");
+
+  useEffect(() => {
+    if (!thumbnail) return;
+    const objectUrl = URL.createObjectURL(thumbnail);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [thumbnail]);
+
+  return (
+    <div className="aspect-[4/3] border-2 border-[#8B4513]/30 bg-[#DCC9B3] flex items-center justify-center overflow-hidden">
+      {thumbnail && url ? (
+        <img src={url} alt={name} className="w-full h-full object-contain" />
+      ) : (
+        <Image className="h-10 w-10 text-[#8B4513] opacity-40" />
+      )}
+    </div>
+  );
+};
+
+const Projects = () => {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<ProjectRecord[] | null>(null);
+  const [renaming, setRenaming] = useState<ProjectRecord | null>(null);
+  const [newName, setNewName] = useState("");
+  const [deleting, setDeleting] = useState<ProjectRecord | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () =>
+    listProjects()
+      .then(setProjects)
+      .catch((error) => {
+        console.error(error);
+        toast.error("Failed to load projects");
+        setProjects([]);
+      });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDuplicate = async (project: ProjectRecord) => {
+    try {
+      await duplicateProject(project.id);
+      toast.success(`Duplicated "${project.name}"`);
+      refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to duplicate project");
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !newName.trim()) return;
+    try {
+      await renameProject(renaming.id, newName.trim());
+      setRenaming(null);
+      refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to rename project");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteProject(deleting.id);
+      toast.success(`Deleted "${deleting.name}"`);
+      setDeleting(null);
+      refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to delete project");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const id = await createProject(await importProject(file));
+      toast.success("Project imported");
+      navigate(`/editor/${id}`);
+    } catch (error) {
+      console.error(error);
+      toast.error(`Failed to import project: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F5E6D3] relative">
+      <div className="container mx-auto px-4 py-8 relative z-10">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8 pb-4 border-b-4 border-double border-[#8B4513]">
+          <Link
+            to="/"
+            className="border-4 border-[#8B4513] bg-[#2C1810] px-6 py-4 shadow-[6px_6px_0_#654321]"
+          >
+            <h1 className="text-4xl font-bold text-[#F5E6D3] mb-2 font-headline uppercase tracking-wider drop-shadow-[2px_2px_0_rgba(0,0,0,0.3)]">
+              ✦ CERTIFICATTACA ✦
+            </h1>
+          </Link>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => importInputRef.current?.click()}
+              className="bg-[#F5E6D3] hover:bg-[#DCC9B3] text-[#8B4513] border-2 border-[#8B4513] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+            >
+              <FileUp className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              onClick={() => navigate("/editor/new")}
+              className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] shadow-[3px_3px_0_#654321] font-bold font-body uppercase"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New Project
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              className="hidden"
+              accept={`${PROJECT_FILE_EXTENSION},.zip`}
+              onChange={handleImport}
+            />
+            <ThemeToggle />
+          </div>
+        </div>
+
+        <div className="border-b-4 border-double border-[#8B4513] pb-3 mb-6">
+          <h2 className="text-2xl font-bold text-[#2C1810] font-headline uppercase tracking-wide">✦ Projects ✦</h2>
+        </div>
+
+        {projects && projects.length === 0 && (
+          <div className="p-8 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[6px_6px_0_#654321] text-center text-[#654321] font-body italic">
+            No saved projects yet. Create one to get started.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {projects?.map((project) => (
+            <Card
+              key={project.id}
+              className="p-4 border-4 border-[#8B4513] bg-[#F5E6D3] shadow-[4px_4px_0_#654321] hover:shadow-[6px_6px_0_#654321] transition-all flex flex-col gap-3"
+            >
+              <Link to={`/editor/${project.id}`}>
+                <ProjectThumbnail thumbnail={project.thumbnail} name={project.name} />
+              </Link>
+              <div className="border-b-2 border-[#8B4513] pb-2">
+                <h3 className="text-lg font-bold text-[#2C1810] font-headline uppercase tracking-wide truncate" title={project.name}>
+                  {project.name}
+                </h3>
+                <p className="text-xs text-[#654321] font-body">
+                  {project.rowCount} rows · edited {formatDistanceToNow(project.updatedAt, { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  asChild
+                  size="sm"
+                  className="flex-1 bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] font-bold font-body uppercase"
+                >
+                  <Link to={`/editor/${project.id}`}>
+                    <FolderOpen className="mr-2 h-4 w-4" />
+                    Open
+                  </Link>
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Rename"
+                  onClick={() => {
+                    setRenaming(project);
+                    setNewName(project.name);
+                  }}
+                  className="text-[#8B4513] hover:bg-[#8B4513]/10"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Duplicate"
+                  onClick={() => handleDuplicate(project)}
+                  className="text-[#8B4513] hover:bg-[#8B4513]/10"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Delete"
+                  onClick={() => setDeleting(project)}
+                  className="text-[#8B4513] hover:bg-[#8B4513]/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      </div>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="bg-[#F5E6D3] border-4 border-[#8B4513]">
+          <DialogHeader>
+            <DialogTitle className="font-body text-[#8B4513] uppercase">Rename project</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+            autoFocus
+            className="border-2 border-[#8B4513] bg-[#F5E6D3] font-body"
+          />
+          <DialogFooter>
+            <Button
+              onClick={handleRename}
+              disabled={!newName.trim()}
+              className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] border-2 border-[#654321] font-bold font-body uppercase"
+            >
+              Rename
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent className="bg-[#F5E6D3] border-4 border-[#8B4513]">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-body text-[#8B4513] uppercase">Delete project?</AlertDialogTitle>
+            <AlertDialogDescription className="font-body text-[#654321]">
+              "{deleting?.name}" and its template, dataset and fonts will be removed from this browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-2 border-[#8B4513] font-body uppercase">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-[#8B4513] hover:bg-[#654321] text-[#F5E6D3] font-body uppercase"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Projects;